@@ -65,6 +65,7 @@ export default [
       '.git/**',
       '.vscode/**',
       'lib/**',
+      '.tests/**',
       'plugins/*/lib/**',
       'benchmarks/**',
       'docs/.vitepress/cache/**',
@@ -2,11 +2,14 @@ import kleur from 'kleur';
 import { serve, type ServerOptions, type Server } from 'srvx';
 import { Core } from './core.js';
 import { YasuiConfig } from './interfaces/index.js';
-import { FetchHandler } from './web.js';
+import { YasuiApp } from './web.js';
+import { LoggerService } from './utils/index.js';
+import { joinPaths, resolveGlobalPrefix } from './utils/path.js';
+import { getEnv, onTerminationSignal } from './utils/runtime.js';
 
 
 /** Create a server with Yasui's configuration and defined routes, and start listening */
-export async function createServer(conf: YasuiConfig): Promise<Server> {
+export async function createServer<I extends unknown[]>(conf: YasuiConfig<I>): Promise<Server> {
   const core: Core = new Core(conf);
 
   console.clear();
@@ -16,7 +19,7 @@ export async function createServer(conf: YasuiConfig): Promise<Server> {
     core.logger.log(`run as ${conf.environment} environment`, 'app', kleur.blue);
   }
 
-  const app: FetchHandler = await core.createApp();
+  const app: YasuiApp = await core.createApp();
 
   // Determine protocol: support deprecated 'protocol' field for backward compatibility
   const hasTLS = conf.tls && (conf.tls.cert || conf.tls.key);
@@ -34,11 +37,31 @@ export async function createServer(conf: YasuiConfig): Promise<Server> {
     port,
     hostname,
     ...(conf.tls && { tls: conf.tls }),
+    /** handled below to await injectables shutdown hooks, unless enabled in runtime options */
+    gracefulShutdown: false,
     ...(conf.runtimeOptions || {}),
   };
 
   const server = serve(serverOptions);
 
+  /** run injectables shutdown hooks once server is closed, including by srvx graceful shutdown */
+  const closeServer = server.close.bind(server);
+  server.close = async (closeActiveConnections?: boolean): Promise<void> => {
+    await closeServer(closeActiveConnections);
+    await app.shutdown();
+  };
+
+  /** graceful shutdown, active connections are closed after a timeout */
+  if (!serverOptions.gracefulShutdown) {
+    onTerminationSignal(async (signal) => {
+      core.logger.log(`${signal} received, shutting down server...`);
+      await closeGracefully(closeServer, core.logger);
+      await app.shutdown(signal);
+    });
+  }
+
+  core.logRoutes();
+
   if (core.decoratorValidator?.hasError()) {
     core.logger.warn('server started with errors');
     core.decoratorValidator.outputErrors();
@@ -58,17 +81,47 @@ export async function createServer(conf: YasuiConfig): Promise<Server> {
   }
 
   if (conf.swagger) {
-    core.logger.log(`documentation on ${kleur.underline(`${url}/${conf.swagger.path || 'api-docs'}`)}`);
+    const swaggerPath = joinPaths('', conf.swagger.path || 'api-docs');
+    const docsUrl = url + resolveGlobalPrefix(swaggerPath, conf.globalPrefix) + swaggerPath;
+    core.logger.log(`documentation on ${kleur.underline(docsUrl)}`);
   }
 
+  await core.bootstrap();
   return server;
 }
 
 /** Create only a fetch handler with Yasui's configuration and defined routes (without starting server) */
-export async function createApp(conf: YasuiConfig): Promise<FetchHandler> {
+export async function createApp<I extends unknown[]>(conf: YasuiConfig<I>): Promise<YasuiApp> {
   const core: Core = new Core(conf);
-  const app: FetchHandler = await core.createApp();
+  const app: YasuiApp = await core.createApp();
   core.decoratorValidator?.outputErrors();
   core.decoratorValidator = null;
+  await core.bootstrap();
   return app;
 }
+
+
+/**
+ * Close server, then force close its active connections after `SERVER_SHUTDOWN_TIMEOUT` seconds —
+ * Stops waiting after `SERVER_FORCE_SHUTDOWN_TIMEOUT` more seconds
+ */
+async function closeGracefully(
+  closeServer: (closeActiveConnections?: boolean) => Promise<void>,
+  logger: LoggerService
+): Promise<void> {
+  const gracefulTimeout: number = Number.parseInt(getEnv('SERVER_SHUTDOWN_TIMEOUT')) || 3;
+  const forceTimeout: number = Number.parseInt(getEnv('SERVER_FORCE_SHUTDOWN_TIMEOUT')) || 5;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  await Promise.race([
+    closeServer().catch((err) => logger.error(`failed to close server\n${err}`)),
+    new Promise<void>((resolve) => {
+      timeout = setTimeout(() => {
+        logger.warn(`server not closed after ${gracefulTimeout}s, closing active connections...`);
+        timeout = setTimeout(resolve, forceTimeout * 1000);
+        closeServer(true).catch((err) => logger.error(`failed to close connections\n${err}`));
+      }, gracefulTimeout * 1000);
+    }),
+  ]);
+  clearTimeout(timeout);
+}
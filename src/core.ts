@@ -1,7 +1,7 @@
 import kleur from 'kleur';
 import { createRouter, RadixRouter } from 'radix3';
 
-import { YasuiRequest, RequestHandler, NextFunction, FetchHandler } from './web.js';
+import { YasuiRequest, RequestHandler, NextFunction, YasuiApp } from './web.js';
 import { Injector } from './injector.js';
 import { LoggerService } from './utils/index.js';
 import { AppService } from './utils/app.service.js';
@@ -9,17 +9,47 @@ import { ConfigValidator } from './utils/config-validator.js';
 import { DecoratorValidator } from './utils/decorator-validator.js';
 import { SwaggerService } from './utils/swagger.service.js';
 import { setupSwaggerUI } from './utils/swagger.js';
+import { extractVersion, resolveVersionedRoutes } from './utils/versioning.js';
+import { compileHostPattern, matchHost } from './utils/host.js';
+import { DEPENDENCY_GRAPH_CONTENT_TYPES, serializeGraph } from './utils/dependency-graph.js';
+import {
+  RouteParamConstraint,
+  collapseSlashes,
+  extractRouteParams,
+  joinPaths,
+  matchConstraints,
+  normalizeRouterPath,
+  parseRoutePath,
+  resolveGlobalPrefix,
+} from './utils/path.js';
 import { ReflectMetadata, getMetadata } from './utils/reflect.js';
+import { findExceptionFilter } from './utils/exception-filter.js';
 import { HttpCode } from './enums/index.js';
 import { HttpError } from './utils/error.resource.js';
 import {
   Constructible,
+  DependencyGraph,
+  DependencyGraphFormat,
   IController,
   IDMiddleware,
+  IExceptionFilter,
+  ILifecycleHooks,
+  IMatchedRoute,
   Instance,
+  IPipeTransform,
+  IRouteInfo,
+  ISwaggerConfig,
   JsonValue,
+  MaybePromise,
+  OnRequestHook,
+  OpenAPIOperation,
+  ProviderToken,
+  TController,
   TMiddleware,
+  YasuiDependencyGraphConfig,
   YasuiConfig,
+  YasuiMount,
+  YasuiRouteGroup,
 } from './interfaces/index.js';
 
 
@@ -27,7 +57,8 @@ type CoreYasuiRequest = YasuiRequest & { _logger?: LoggerService; };
 
 interface IDController extends IController {
   path: string;
-  configureRoutes: (self: this, core: Core) => void;
+  host?: string;
+  configureRoutes: (self: this, core: Core, group: RouteGroupContext) => void;
 }
 
 interface RouteData {
@@ -37,8 +68,64 @@ interface RouteData {
   source?: string;
   defaultStatus?: HttpCode;
   useLogger?: boolean;
+  constraints?: Record<string, RouteParamConstraint>;
+  /** Normalized router path pattern */
+  path?: string;
+  /** Exception filters by scope, most specific first */
+  filters?: IExceptionFilter[][];
+  route?: IMatchedRoute;
+  /** Global and route hooks, except global onRequest hooks (run before routing) */
+  hooks?: ILifecycleHooks;
+}
+
+type MatchedRoute = RouteData & {
+  params?: Record<string, string>;
+  hostParams?: Record<string, string>;
+};
+
+interface PathData {
+  methods: Set<string>;
 }
 
+interface RoutesTable {
+  router: RadixRouter<RouteData>;
+  pathsRouter: RadixRouter<PathData>;
+  routedPaths: Map<string, PathData>;
+}
+
+interface HostRoutesTable extends RoutesTable {
+  hostRegex: RegExp;
+}
+
+/** Prefix, middlewares and pipes stacked from the route groups of a controller */
+export interface RouteGroupContext {
+  prefix: string;
+  middlewares: TMiddleware[];
+  pipes: Constructible<IPipeTransform>[];
+}
+
+/** Optional route data for registration and introspection */
+export interface RouteOptions {
+  /** Source controller or middleware name for debugging */
+  source?: string;
+  defaultStatus?: HttpCode;
+  useLogger?: boolean;
+  versions?: string[];
+  controller?: Function;
+  host?: string;
+  methodName?: string;
+  middlewareNames?: string[];
+  pipeNames?: string[];
+  swagger?: OpenAPIOperation;
+  /** Exception filters by scope, most specific first (global filters excluded) */
+  filters?: IExceptionFilter[][];
+  /** Route lifecycle hooks, run after global hooks */
+  hooks?: ILifecycleHooks;
+}
+
+/** HTTP verbs advertised in Allow header, in display order */
+const ALLOWED_METHODS: string[] = ['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'];
+
 
 export class Core {
   public config: YasuiConfig;
@@ -48,8 +135,15 @@ export class Core {
 
   private appService: AppService;
   private injector: Injector;
-  private router: RadixRouter<RouteData>;
+  private routesTable: RoutesTable;
+  /** <host pattern, routes restricted to this host> */
+  private hostRoutesTables: Map<string, HostRoutesTable> = new Map();
   private globalMiddlewares: RequestHandler[] = [];
+  private globalMiddlewareNames: string[] = [];
+  private globalFilters: IExceptionFilter[] = [];
+  /** hooks of unmatched requests and routes without own hooks */
+  private defaultRouteHooks: ILifecycleHooks;
+  private routes: IRouteInfo[] = [];
   private middlewareLoggerCache: WeakMap<Function, boolean> = new WeakMap();
 
   constructor(conf: YasuiConfig) {
@@ -75,12 +169,14 @@ export class Core {
     );
     this.swagger = new SwaggerService(
       this.decoratorValidator,
+      this.config,
     );
-    this.router = createRouter<RouteData>();
+    this.routesTable = this.createRoutesTable();
+    this.defaultRouteHooks = this.mergeRouteHooks();
   }
 
 
-  public async createApp(): Promise<FetchHandler> {
+  public async createApp(): Promise<YasuiApp> {
     this.logger.start();
 
     /** debug logging middleware */
@@ -101,24 +197,44 @@ export class Core {
     }
 
     /** register custom injections */
-    await this.registerInjections();
+    await this.injector.registerInjections(this.config.injections || []);
 
     /** load other optional middlewares */
     this.loadMiddlewares();
 
+    /** load global exception filters */
+    this.globalFilters = (this.config.filters || []).map(Filter => this.build(Filter));
+
     this.logger.log('load routes from controllers...');
     this.loadControllers();
 
+    /** mount external fetch handlers and sub-apps */
+    for (const { path, fetch } of this.config.mounts || []) {
+      this.mount(path, fetch);
+    }
+
     /** setup swagger documentation if enabled */
     this.setupSwagger();
 
+    /** serve dependency graph if enabled */
+    this.setupDependencyGraph();
+
     /** add root health check route */
     this.addRoute('/', 'GET', () => new Response(null, { status: 200 }), []);
 
+    /** injectables async setup, before routes go live */
+    await this.injector.init();
+
     /** create fetch handler */
     const handler = async (standardReq: Request): Promise<Response> => {
+      const startTime = Date.now();
+      let req: CoreYasuiRequest | undefined;
+      let match: MatchedRoute | undefined;
+      let handling: Promise<Response> | undefined;
+      let response: Response;
+
       try {
-        const req: CoreYasuiRequest = new YasuiRequest(standardReq);
+        req = new YasuiRequest(standardReq);
 
         /** check header size limit */
         if (this.config.maxHeaderSize) {
@@ -134,59 +250,92 @@ export class Core {
           }
         }
 
-        const routeKey = `${req.method}:${req.path}`;
-        const match = this.router.lookup(routeKey) || {
-          /** execute global middlewares even without a route */
-          handler: req.method === 'OPTIONS'
-            ? (): Response => new Response(null, { status: 204 })
-            : this.appService.handleNotFound.bind(this.appService),
-          middlewares: this.globalMiddlewares,
-          method: req.method
-        };
+        /** global onRequest hooks run before routing and may answer early */
+        const earlyResponse = await this.runRequestHooks(req, this.config.hooks?.onRequest);
+        if (earlyResponse) {
+          response = earlyResponse;
+        } else {
+          match = this.matchRoute(req);
+          req.params = match.params || {};
+          req.hostParams = match.hostParams || {};
+          req.source = match.source;
+          req.route = match.route;
+          if (match.useLogger) {
+            req._logger = new LoggerService().start();
+          }
 
-        req.params = match.params || {};
-        req.source = match.source;
-        if (match.useLogger) {
-          req._logger = new LoggerService().start();
+          handling = this.executeChain(req, match);
+
+          /** apply request timeout if configured */
+          if (this.config.requestTimeout) {
+            let timeout: ReturnType<typeof setTimeout> | undefined;
+            const timeoutPromise = new Promise<Response>((_, reject) => {
+              timeout = setTimeout(() => {
+                reject(new HttpError(
+                  HttpCode.REQUEST_TIMEOUT,
+                  `Request exceeded timeout of ${this.config.requestTimeout}ms`
+                ));
+              }, this.config.requestTimeout);
+            });
+
+            try {
+              response = await Promise.race([handling, timeoutPromise]);
+            } finally {
+              clearTimeout(timeout);
+            }
+          } else {
+            response = await handling;
+          }
         }
 
-        /** apply request timeout if configured */
-        if (this.config.requestTimeout) {
-          const timeoutPromise = new Promise<Response>((_, reject) => {
-            setTimeout(() => {
-              reject(new HttpError(
-                HttpCode.REQUEST_TIMEOUT,
-                `Request exceeded timeout of ${this.config.requestTimeout}ms`
-              ));
-            }, this.config.requestTimeout);
+      } catch (error) {
+        if (!req) {
+          // minimal request for error handling if conversion failed
+          req = new YasuiRequest(standardReq.url, {
+            method: standardReq.method,
+            headers: standardReq.headers,
           });
-
-          return await Promise.race([
-            this.executeChain(req, match),
-            timeoutPromise
-          ]);
+          req._logger = new LoggerService().start();
         }
+        response = await this.handleErrors(error, req, match);
+      }
 
-        return await this.executeChain(req, match);
+      /** responses of routes, onRequest hooks and errors are all sent the same way */
+      response = await this.sendResponse(req, response, match);
 
-      } catch (error) {
-        // minimal request for error handling if conversion failed
-        const req: CoreYasuiRequest = new YasuiRequest(standardReq.url, {
-          method: standardReq.method,
-          headers: standardReq.headers,
-        });
-        req._logger = new LoggerService().start();
-        return this.appService.handleErrors(<Error>error, req);
-      }
+      /** fire-and-forget, does not delay response */
+      const info = { status: response.status, duration: Date.now() - startTime };
+      this.runObserverHooks(match?.hooks?.onResponse || this.config.hooks?.onResponse, req, info);
+      return this.releaseRequestScope(req, response, handling);
     };
 
-    return { fetch: handler };
+    return {
+      fetch: handler,
+      getRoutes: this.getRoutes.bind(this),
+      getDependencyGraph: this.getDependencyGraph.bind(this),
+      shutdown: (signal?: string) => this.injector.shutdown(signal),
+    };
   }
 
   public build<T extends Instance>(Provided: Constructible<T>): T {
     return this.injector.build(Provided);
   }
 
+  /** get the instance injected for a class or token */
+  public get<T = Instance>(token: ProviderToken<T>): T {
+    return this.injector.resolve(token);
+  }
+
+  /** classes and tokens resolved by the injector, with their dependencies */
+  public getDependencyGraph(): DependencyGraph {
+    return this.injector.getDependencyGraph();
+  }
+
+  /** injectables `onBootstrap` hooks, once the app is created */
+  public bootstrap(): Promise<void> {
+    return this.injector.bootstrap();
+  }
+
   public useMiddleware(Middleware: TMiddleware): RequestHandler {
     if (this.isClassMiddleware(Middleware)) {
       const middleware = this.build(Middleware) as IDMiddleware;
@@ -195,6 +344,14 @@ export class Core {
     return <RequestHandler>Middleware;
   }
 
+  public addRoute(
+    path: string,
+    method: string,
+    handler: RequestHandler,
+    middlewares: RequestHandler[],
+    options?: RouteOptions
+  ): void;
+  /** @deprecated Use route options instead of positional source, defaultStatus and logger */
   public addRoute(
     path: string,
     method: string,
@@ -203,16 +360,135 @@ export class Core {
     source?: string,
     defaultStatus?: HttpCode,
     logger?: boolean
+  ): void;
+  public addRoute(
+    path: string,
+    method: string,
+    handler: RequestHandler,
+    middlewares: RequestHandler[],
+    sourceOrOptions: string | RouteOptions = {},
+    status?: HttpCode,
+    logger?: boolean
   ): void {
-    const routeKey = `${method.toUpperCase()}:${path}`;
-    this.router.insert(routeKey, {
+    const options: RouteOptions = typeof sourceOrOptions === 'string'
+      ? { source: sourceOrOptions, defaultStatus: status, useLogger: logger }
+      : sourceOrOptions;
+    const { source, defaultStatus, useLogger, versions, host } = options;
+    const routeMethod = method.toUpperCase();
+    const { constraints } = parseRoutePath(path);
+    const routeData: RouteData = {
       handler,
       middlewares: [...this.globalMiddlewares, ...middlewares],
-      method: method.toUpperCase(),
+      method: routeMethod,
       source,
       defaultStatus,
-      useLogger: logger,
-    });
+      useLogger,
+      constraints: Object.keys(constraints).length ? constraints : undefined,
+      filters: options.filters,
+      hooks: options.hooks ? this.mergeRouteHooks(options.hooks) : this.defaultRouteHooks,
+    };
+
+    const table = host ? this.getHostRoutesTable(host) : this.routesTable;
+
+    /** global prefix precedes uri version (e.g. /api/v1/users) */
+    const globalPrefix = resolveGlobalPrefix(path, this.config.globalPrefix);
+
+    for (const route of resolveVersionedRoutes(path, versions, this.config.versioning)) {
+      /** version is part of the path with uri strategy, else part of the route key */
+      const routeKey = route.version && this.config.versioning?.type !== 'uri'
+        ? `${routeMethod}@${route.version}`
+        : routeMethod;
+      const routePath = joinPaths(globalPrefix, route.path);
+      const patternPath = parseRoutePath(routePath).path;
+      const routerPath = normalizeRouterPath(patternPath, this.config.routing);
+      table.router.insert(`${routeKey}:${routerPath}`, {
+        ...routeData,
+        path: routerPath,
+        route: {
+          path: patternPath,
+          method: routeMethod,
+          controller: options.controller,
+          methodName: options.methodName,
+          swagger: options.swagger,
+        },
+      });
+      this.registerPathMethod(table, routerPath, routeMethod);
+
+      this.routes.push({
+        method: routeMethod,
+        path: routePath,
+        host,
+        version: route.version,
+        controller: options.methodName ? source : undefined,
+        methodName: options.methodName,
+        middlewares: [...this.globalMiddlewareNames, ...(options.middlewareNames || [])],
+        pipes: options.pipeNames || [],
+        defaultStatus,
+        swagger: options.swagger,
+      });
+    }
+  }
+
+  /** Mount a fetch handler (e.g. another app) under a path, with mount path stripped from requests */
+  public mount(path: string, target: YasuiMount['fetch'] | Pick<YasuiMount, 'fetch'>): void {
+    const fetch = typeof target === 'function' ? target : target.fetch;
+
+    const handler = (req: YasuiRequest): MaybePromise<Response> => {
+      const url = new URL(req.url);
+      url.pathname = '/' + (req.params._ || '');
+      const headers = new Headers(req.headers);
+      let body: globalThis.BodyInit | null = req.body;
+
+      /** body already read (e.g. by a global middleware) is forwarded from its parsed JSON cache */
+      if (req.bodyUsed) {
+        if (req.parsedBody === undefined) {
+          throw new HttpError(
+            HttpCode.INTERNAL_SERVER_ERROR,
+            `Request body was read before reaching handler mounted on ${path}, read it with req.json() to forward it`
+          );
+        }
+        body = JSON.stringify(req.parsedBody);
+        headers.delete('content-length');
+      }
+
+      const init: globalThis.RequestInit & { duplex?: 'half' } = {
+        method: req.method,
+        headers,
+        body,
+        signal: req.signal,
+        duplex: 'half',
+      };
+      return fetch(new Request(url, init));
+    };
+
+    this.addRoute(path, 'ALL', handler, [], { source: `mount ${path}` });
+    this.addRoute(joinPaths(path, '**'), 'ALL', handler, [], { source: `mount ${path}` });
+    this.logger.success(`${kleur.italic(`${path}`)} handler mounted`);
+  }
+
+  /** List all registered routes */
+  public getRoutes(): IRouteInfo[] {
+    return [...this.routes];
+  }
+
+  /** Print registered routes as a table in debug mode */
+  public logRoutes(): void {
+    if (!this.config.debug) {
+      return;
+    }
+    const rows: string[][] = this.routes.map((route: IRouteInfo) => [
+      route.method,
+      (route.host || '') + route.path + (route.version ? ` (version ${route.version})` : ''),
+      route.controller ? `${route.controller}.${route.methodName}()` : '<built-in>',
+      route.middlewares.join(', ') || '-',
+      String(route.defaultStatus || HttpCode.OK),
+    ]);
+    const header = ['METHOD', 'PATH', 'HANDLER', 'MIDDLEWARES', 'STATUS'];
+    const widths = header.map((title, idx) => Math.max(title.length, ...rows.map(row => row[idx].length)));
+    const format = (row: string[]): string => row.map((cell, idx) => cell.padEnd(widths[idx])).join('  ').trimEnd();
+
+    const table = [kleur.bold(format(header)), ...rows.map(format)].join('\n');
+    this.logger.debug(`${this.routes.length} registered routes\n${table}`);
   }
 
   /** check if middleware use logger with caching for performance */
@@ -229,6 +505,169 @@ export class Core {
   }
 
 
+  /** resolve route from request host, method, version and path, with HEAD, ALL, OPTIONS and 405 fallbacks */
+  private matchRoute(req: YasuiRequest): MatchedRoute {
+    const methods = req.method === 'HEAD'
+      ? [req.method, 'GET', 'ALL']
+      : [req.method, 'ALL'];
+    const tables = this.getMatchingRoutesTables(req.hostname);
+    const routing = this.config.routing || {};
+    const path = routing.collapseSlashes === false ? req.path : collapseSlashes(req.path);
+    const match = this.lookupRoute(req, path, methods, tables);
+
+    /** redirect to the registered path, with or without trailing slash */
+    if (routing.trailingSlash === 'redirect') {
+      const alternatePath = path.endsWith('/') && path !== '/' ? path.slice(0, -1) : path + '/';
+      const canonicalPath = match ? path : this.lookupRoute(req, alternatePath, methods, tables) && alternatePath;
+      if (canonicalPath && canonicalPath !== req.path) {
+        return {
+          handler: (): Response => new Response(null, {
+            status: HttpCode.PERMANENT_REDIRECT,
+            headers: { location: canonicalPath + new URL(req.url).search },
+          }),
+          middlewares: this.globalMiddlewares,
+          method: req.method,
+          hooks: this.defaultRouteHooks,
+        };
+      }
+    }
+    if (match) {
+      return match;
+    }
+
+    /** execute global middlewares even without a route */
+    const lookupPath = routing.caseSensitive === false ? path.toLowerCase() : path;
+    const routedMethods = new Set<string>();
+    for (const { table } of tables) {
+      table.pathsRouter.lookup(lookupPath)?.methods?.forEach(method => routedMethods.add(method));
+    }
+    const allow = routedMethods.size ? this.getAllowHeader(routedMethods) : undefined;
+    /** method routed on this path but not for the requested version */
+    const isMethodRouted = methods.some(method => routedMethods.has(method));
+    let handler: RequestHandler;
+
+    if (req.method === 'OPTIONS' && allow) {
+      handler = (): Response => new Response(null, {
+        status: HttpCode.NO_CONTENT,
+        headers: { allow },
+      });
+    } else if (allow && !isMethodRouted) {
+      handler = (request: YasuiRequest): Response => this.appService.handleMethodNotAllowed(request, allow);
+    } else {
+      handler = this.appService.handleNotFound.bind(this.appService);
+    }
+
+    return {
+      handler,
+      middlewares: this.globalMiddlewares,
+      method: req.method,
+      hooks: this.defaultRouteHooks,
+    };
+  }
+
+  private lookupRoute(
+    req: YasuiRequest,
+    path: string,
+    methods: string[],
+    tables: { table: RoutesTable; hostParams?: Record<string, string> }[]
+  ): MatchedRoute | null {
+    const version = extractVersion(req, this.config.versioning);
+    const caseSensitive = this.config.routing?.caseSensitive !== false;
+    const lookupPath = caseSensitive ? path : path.toLowerCase();
+
+    for (const { table, hostParams } of tables) {
+      for (const method of methods) {
+        /** version-neutral routes match any requested version */
+        const routeKeys = version ? [`${method}@${version}`, method] : [method];
+
+        for (const routeKey of routeKeys) {
+          let match: MatchedRoute | null = table.router.lookup(`${routeKey}:${lookupPath}`);
+          /** radix3 returns params of intermediate nodes without route data */
+          if (!match?.handler) {
+            continue;
+          }
+          /** params values are extracted from lowercased path if case insensitive */
+          if (match.params && !caseSensitive && match.path) {
+            const requestPath = this.isStrictTrailingSlash() ? path : path.replace(/\/$/, '') || '/';
+            match = { ...match, params: extractRouteParams(match.path, requestPath) };
+          }
+          /** routes with unsatisfied param constraints fall through */
+          if (!match.constraints || matchConstraints(match.params, match.constraints)) {
+            return hostParams ? { ...match, hostParams } : match;
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  /** host-restricted routes tables matching hostname first, then default routes table */
+  private getMatchingRoutesTables(
+    hostname: string
+  ): { table: RoutesTable; hostParams?: Record<string, string> }[] {
+    const tables: { table: RoutesTable; hostParams?: Record<string, string> }[] = [];
+    for (const table of this.hostRoutesTables.values()) {
+      const hostParams = matchHost(table.hostRegex, hostname);
+      if (hostParams) {
+        tables.push({ table, hostParams });
+      }
+    }
+    tables.push({ table: this.routesTable });
+    return tables;
+  }
+
+  private getHostRoutesTable(host: string): HostRoutesTable {
+    let table = this.hostRoutesTables.get(host);
+    if (!table) {
+      table = { ...this.createRoutesTable(), hostRegex: compileHostPattern(host) };
+      this.hostRoutesTables.set(host, table);
+
+      /** static hosts take precedence over hosts with params or wildcards */
+      const isStatic = (pattern: string): boolean => !/(^|\.)(:|\*)/.test(pattern);
+      this.hostRoutesTables = new Map([...this.hostRoutesTables].sort(
+        ([a], [b]) => Number(isStatic(b)) - Number(isStatic(a))
+      ));
+    }
+    return table;
+  }
+
+  private createRoutesTable(): RoutesTable {
+    const strictTrailingSlash = this.isStrictTrailingSlash();
+    return {
+      router: createRouter<RouteData>({ strictTrailingSlash }),
+      pathsRouter: createRouter<PathData>({ strictTrailingSlash }),
+      routedPaths: new Map(),
+    };
+  }
+
+  /** trailing slash is part of the path in strict and redirect modes */
+  private isStrictTrailingSlash(): boolean {
+    const trailingSlash = this.config.routing?.trailingSlash;
+    return trailingSlash === 'strict' || trailingSlash === 'redirect';
+  }
+
+  /** keep track of routed methods by path pattern to answer OPTIONS and 405 */
+  private registerPathMethod(table: RoutesTable, path: string, method: string): void {
+    let pathData = table.routedPaths.get(path);
+    if (!pathData) {
+      pathData = { methods: new Set() };
+      table.routedPaths.set(path, pathData);
+      table.pathsRouter.insert(path, pathData);
+    }
+    pathData.methods.add(method);
+  }
+
+  private getAllowHeader(methods: Set<string>): string {
+    if (methods.has('ALL')) {
+      return ALLOWED_METHODS.join(', ');
+    }
+    const allowed = new Set([...methods, 'OPTIONS']);
+    if (allowed.has('GET')) {
+      allowed.add('HEAD');
+    }
+    return ALLOWED_METHODS.filter(method => allowed.has(method)).join(', ');
+  }
+
   private convertToResponse(result: Response | JsonValue | void, defaultStatus?: HttpCode): Response {
     if (result instanceof globalThis.Response) {
       return result;
@@ -244,6 +683,10 @@ export class Core {
     if (!this.config.compression || !response.body || response.status === 204 || response.status === 304) {
       return response;
     }
+    /** already encoded (e.g. by a mounted app) */
+    if (response.headers.has('content-encoding')) {
+      return response;
+    }
 
     // Check if CompressionStream is available (Node.js 18+, Deno, Bun)
     if (typeof CompressionStream === 'undefined') {
@@ -271,9 +714,68 @@ export class Core {
     );
   }
 
+  /** handle error with the most specific exception filter, or default error handling */
+  private async handleErrors(
+    error: unknown,
+    req: YasuiRequest,
+    routeData?: RouteData
+  ): Promise<Response> {
+    this.runObserverHooks(routeData?.hooks?.onError || this.config.hooks?.onError, error, req);
+
+    const filter = findExceptionFilter(error, [...(routeData?.filters || []), this.globalFilters]);
+    if (!filter) {
+      return this.appService.handleErrors(<Error>error, req);
+    }
+    try {
+      return await filter.catch(error, req);
+    } catch (filterError) {
+      return this.appService.handleErrors(<Error>filterError, req);
+    }
+  }
+
+  /** run onRequest hooks until one of them answers */
+  private async runRequestHooks(
+    req: YasuiRequest,
+    hooks: OnRequestHook[] = []
+  ): Promise<Response | undefined> {
+    for (const hook of hooks) {
+      const response = await hook(req);
+      if (response instanceof Response) {
+        return response;
+      }
+    }
+    return undefined;
+  }
+
+  /** run hooks without awaiting them, logging their failures */
+  private runObserverHooks<A extends unknown[]>(
+    hooks: ((...args: A) => MaybePromise<void>)[] = [],
+    ...args: A
+  ): void {
+    for (const hook of hooks) {
+      Promise.resolve()
+        .then(() => hook(...args))
+        .catch((err: unknown) => this.logger.error(`lifecycle hook failed\n${err}`));
+    }
+  }
+
+  /**
+   * global hooks followed by route hooks, except global onRequest hooks (run before routing)
+   * and preHandler hooks (run by controllers route handlers)
+   */
+  private mergeRouteHooks(hooks: ILifecycleHooks = {}): ILifecycleHooks {
+    const globalHooks = this.config.hooks || {};
+    return {
+      onRequest: hooks.onRequest,
+      onSend: [...(globalHooks.onSend || []), ...(hooks.onSend || [])],
+      onResponse: [...(globalHooks.onResponse || []), ...(hooks.onResponse || [])],
+      onError: [...(globalHooks.onError || []), ...(hooks.onError || [])],
+    };
+  }
+
   private async executeChain(
     req: YasuiRequest,
-    routeData: RouteData & { params?: Record<string, unknown> }
+    routeData: MatchedRoute
   ): Promise<Response> {
     const allMiddlewares = routeData.middlewares || [];
     let index = 0;
@@ -289,57 +791,107 @@ export class Core {
     };
 
     try {
-      const response = await next();
-      return this.compressResponse(response, req);
+      /** controller onRequest hooks run once routed, before middlewares */
+      return await this.runRequestHooks(req, routeData.hooks?.onRequest) || await next();
     } catch (error) {
-      return this.appService.handleErrors(<Error>error, req);
+      return this.handleErrors(error, req, routeData);
     }
   }
 
-  private async registerInjections(): Promise<void> {
-    for (const injection of this.config.injections || []) {
-      if ('factory' in injection) {
-        if (injection.deferred) {
-          this.injector.deferred(injection.token, injection.factory);
-        } else {
-          const instance = await injection.factory();
-          this.injector.register(injection.token, instance);
-        }
-      } else {
-        this.injector.register(injection.token, injection.provide);
+  /** run onSend hooks, then compress response */
+  private async sendResponse(
+    req: YasuiRequest,
+    response: Response,
+    routeData?: MatchedRoute
+  ): Promise<Response> {
+    try {
+      for (const onSend of (routeData?.hooks || this.defaultRouteHooks).onSend || []) {
+        response = await onSend(req, response) || response;
       }
+    } catch (error) {
+      response = await this.handleErrors(error, req, routeData);
     }
+    response = this.compressResponse(response, req);
+
+    /** HEAD responses keep GET headers but must not carry a body */
+    if (req.method === 'HEAD' && response.body) {
+      return new Response(null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    }
+    return response;
+  }
+
+  /** dispose request-scoped instances once handler has settled and response body is sent, whichever comes last */
+  private releaseRequestScope(req: YasuiRequest, response: Response, handling?: Promise<Response>): Response {
+    const settled: Promise<unknown> = handling?.catch(() => undefined) || Promise.resolve();
+    if (!response.body || !this.injector.hasRequestScope(req)) {
+      void settled.then(() => this.injector.disposeRequest(req));
+      return response;
+    }
+
+    let sent!: () => void;
+    const bodySent = new Promise<void>(resolve => sent = resolve);
+    void Promise.all([settled, bodySent]).then(() => this.injector.disposeRequest(req));
+
+    /** body is sent once fully read (flush) or aborted by client (cancel, missing from DOM typings) */
+    const transformer: globalThis.Transformer<Uint8Array, Uint8Array> & { cancel: () => void } = {
+      flush: () => sent(),
+      cancel: () => sent(),
+    };
+    return new Response(response.body.pipeThrough(new TransformStream(transformer)), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
   }
 
   private loadMiddlewares(): void {
     for (const Middleware of this.config.middlewares || []) {
       try {
         this.globalMiddlewares.push(this.useMiddleware(Middleware));
+        this.globalMiddlewareNames.push(Middleware.name || '<anonymous>');
       } catch (err) {
         this.logger.error(`failed to load ${Middleware.name || '<invalid function>'} middleware\n${err}`);
       }
     }
   }
 
-  private loadControllers(): void {
-    for (const Controller of this.config.controllers || []) {
+  private loadControllers(
+    controllers: TController[] = this.config.controllers || [],
+    groups: YasuiRouteGroup[] = this.config.groups || [],
+    group: RouteGroupContext = { prefix: '', middlewares: [], pipes: [] }
+  ): void {
+    for (const Controller of controllers) {
       try {
         this.decoratorValidator?.validateController(Controller);
 
         const controller = this.build(Controller) as IDController;
-        const path: string = controller.path;
-        controller.configureRoutes(controller, this);
+        const path: string = joinPaths(group.prefix, controller.path);
+        controller.configureRoutes(controller, this, group);
 
         if (this.config.swagger?.generate) {
-          this.swagger.registerControllerRoutes(Controller, path);
+          this.swagger.registerControllerRoutes(Controller, path, controller.host);
         }
 
-        this.logger.success(`${kleur.italic(`${path}`)} routes loaded`);
+        const hostInfo = controller.host ? ` (host ${controller.host})` : '';
+        this.logger.success(`${kleur.italic(`${path}`)} routes loaded${hostInfo}`);
 
       } catch (err) {
         this.logger.error(`failed to load ${Controller.name || '<invalid controller>'} routes\n${err}`);
       }
     }
+
+    /** nested groups stack their prefix, middlewares and pipes */
+    for (const nestedGroup of groups) {
+      this.loadControllers(nestedGroup.controllers || [], nestedGroup.groups || [], {
+        prefix: joinPaths(group.prefix, nestedGroup.prefix),
+        middlewares: [...group.middlewares, ...(nestedGroup.middlewares || [])],
+        pipes: [...group.pipes, ...(nestedGroup.pipes || [])],
+      });
+    }
   }
 
   private setupSwagger(): void {
@@ -349,16 +901,46 @@ export class Core {
     const swaggerPath = this.config.swagger.path || '/api-docs';
     const swaggerConfig = this.swagger.getSwaggerConfig(this.config.swagger, !!this.config.apiKey);
 
+    /** one documentation per API version if versioning is enabled */
+    const versionedConfigs: Record<string, ISwaggerConfig> = {};
+    for (const version of this.swagger.getVersions()) {
+      versionedConfigs[version] = this.swagger.getSwaggerConfig(this.config.swagger, !!this.config.apiKey, version);
+    }
+
     setupSwaggerUI(
       this.addRoute.bind(this),
       swaggerConfig,
       swaggerPath,
       this.logger,
-      this.config.swagger.cdn
+      this.config.swagger.cdn,
+      versionedConfigs,
+      resolveGlobalPrefix(joinPaths('', swaggerPath), this.config.globalPrefix)
     );
   }
 
 
+  private setupDependencyGraph(): void {
+    if (!this.config.dependencyGraph) {
+      return;
+    }
+    const { path = '/_debug/dependencies', format = 'json' }: YasuiDependencyGraphConfig =
+      this.config.dependencyGraph === true ? {} : this.config.dependencyGraph;
+
+    /** graph is read on each request, it includes instances built after startup */
+    this.addRoute(path, 'GET', (req: YasuiRequest) => {
+      const requestedFormat = <DependencyGraphFormat>(req.query.format || format);
+      if (!Object.keys(DEPENDENCY_GRAPH_CONTENT_TYPES).includes(requestedFormat)) {
+        throw new HttpError(HttpCode.BAD_REQUEST, `Invalid dependency graph format: ${requestedFormat}`);
+      }
+      return new Response(serializeGraph(this.getDependencyGraph(), requestedFormat), {
+        headers: { 'content-type': DEPENDENCY_GRAPH_CONTENT_TYPES[requestedFormat] },
+      });
+    }, []);
+
+    const basePath: string = resolveGlobalPrefix(joinPaths('', path), this.config.globalPrefix);
+    this.logger.success(`${kleur.italic(basePath + joinPaths('', path))} dependency graph loaded`);
+  }
+
   private isClassMiddleware(Md: TMiddleware): Md is Constructible<IDMiddleware> {
     if (typeof Md !== 'function') {
       return false;
@@ -1,47 +1,61 @@
-import kleur from 'kleur';
 import { RequestHandler } from '../web.js';
-import { Core } from '../core.js';
+import { Core, RouteGroupContext } from '../core.js';
 import { routeHandler } from '../utils/route-handler.js';
+import { applyGuards, applyInterceptors, executionContextFactory } from '../utils/execution-context.js';
+import { joinPaths } from '../utils/path.js';
+import { getRouteVersions } from '../utils/versioning.js';
 import { ReflectMetadata, defineMetadata, getMetadata } from '../utils/reflect.js';
-import { Constructible, IController, IPipeTransform, TMiddleware } from '../interfaces/index.js';
-
-
-/** Define a Controller with optional middleware */
+import {
+  Constructible,
+  IController,
+  ICanActivate,
+  IControllerOptions,
+  IExceptionFilter,
+  IInterceptor,
+  IPipeTransform,
+  TMiddleware,
+} from '../interfaces/index.js';
+
+
+/** Define a Controller from its base path or options, with optional middleware */
 export function Controller(
-  path: string,
+  pathOrOptions: string | IControllerOptions,
   ...middlewares: TMiddleware[]
 ): ClassDecorator {
+  const { path, host, hooks }: IControllerOptions = typeof pathOrOptions === 'string'
+    ? { path: pathOrOptions }
+    : pathOrOptions;
+
   return function (target: Function): void {
     target.prototype.path = path;
+    target.prototype.host = host;
 
     target.prototype.configureRoutes = (
       self: IController,
-      core: Core
+      core: Core,
+      group: RouteGroupContext
     ): void => {
       core.logger.start();
 
       /** add target instance metadata to bind his args in route function */
       defineMetadata(ReflectMetadata.SELF, self, target.prototype);
 
-      /** prepare controller-level middlewares */
-      const controllerMiddlewares: RequestHandler[] = middlewares.map(
+      /** prepare group and controller-level middlewares */
+      const ControllerMiddlewares = [...group.middlewares, ...middlewares];
+      const controllerMiddlewares: RequestHandler[] = ControllerMiddlewares.map(
         (Middleware: TMiddleware) => core.useMiddleware(Middleware)
       );
 
       /** add routes from object metadata */
       const routes = getMetadata(ReflectMetadata.ROUTES, target.prototype) || [];
 
-      /** get controller-level pipes once (same for all routes) */
+      /** get controller-level pipes and exception filters once (same for all routes) */
       const controllerPipes = getMetadata(ReflectMetadata.PIPES, target.prototype) || [];
+      const controllerFilters = (getMetadata(ReflectMetadata.FILTERS, target.prototype) || []).map(
+        (Filter: Constructible<IExceptionFilter>) => core.build(Filter)
+      );
 
       for (const route of routes) {
-        if (core.config.debug) {
-          core.logger.debug(
-            `stack route ${kleur.italic(`${route.method.toUpperCase()} ${route.path}`)}`,
-            target.name
-          );
-        }
-
         /** prepare route-specific middlewares */
         const routeMiddlewares: RequestHandler[] = route.middlewares.map(
           (Middleware: TMiddleware) => core.useMiddleware(Middleware)
@@ -50,62 +64,90 @@ export function Controller(
         /** combine controller and route middlewares */
         const allMiddlewares = [...controllerMiddlewares, ...routeMiddlewares];
 
-        /** prepare pipes (global, controller, route) */
-        const pipes = [
+        /** prepare pipes (global, group, controller, route) */
+        const Pipes = [
           ...(core.config.globalPipes || []),
+          ...group.pipes,
           ...controllerPipes,
           ...(getMetadata(ReflectMetadata.PIPES, target.prototype, route.methodName) || [])
-        ].map(
+        ];
+        const pipes = Pipes.map(
           (Pipe: Constructible<IPipeTransform>) => core.build(Pipe)
         );
 
-        /** create route handler */
-        const handler = routeHandler(
+        /** prepare route exception filters, before controller ones */
+        const routeFilters = (getMetadata(ReflectMetadata.FILTERS, target.prototype, route.methodName) || []).map(
+          (Filter: Constructible<IExceptionFilter>) => core.build(Filter)
+        );
+
+        /** prepare guards (global, controller, route) */
+        const guards = [
+          ...(core.config.guards || []),
+          ...(getMetadata(ReflectMetadata.GUARDS, target.prototype) || []),
+          ...(getMetadata(ReflectMetadata.GUARDS, target.prototype, route.methodName) || [])
+        ].map(
+          (Guard: Constructible<ICanActivate>) => core.build(Guard)
+        );
+
+        /** prepare interceptors (global, controller, route) */
+        const interceptors = [
+          ...(core.config.interceptors || []),
+          ...(getMetadata(ReflectMetadata.INTERCEPTORS, target.prototype) || []),
+          ...(getMetadata(ReflectMetadata.INTERCEPTORS, target.prototype, route.methodName) || [])
+        ].map(
+          (Interceptor: Constructible<IInterceptor>) => core.build(Interceptor)
+        );
+
+        /** create route handler wrapped by interceptors, then guards */
+        const createContext = executionContextFactory(target, route.methodName);
+        const handler = applyGuards(applyInterceptors(routeHandler(
           target,
           route.descriptor,
           route.params,
           pipes,
           false,
           core.config.strictValidation,
-          core.config.maxBodySize
-        );
+          core.config.maxBodySize,
+          [...(core.config.hooks?.preHandler || []), ...(hooks?.preHandler || [])]
+        ), interceptors, createContext), guards, createContext);
 
-        /** join controller path with route path */
-        const fullPath = joinPaths(path, route.path);
+        /** join group prefix and controller path with route path */
+        const fullPath = joinPaths(joinPaths(group.prefix, path), route.path);
 
         /** detect if route use logger decorator */
         const routeUseLogger = route.params.some(p => p.path.includes('_logger'));
-        const allMiddlewareClasses = [...middlewares, ...route.middlewares];
+        const allMiddlewareClasses = [...ControllerMiddlewares, ...route.middlewares];
         const middlewaresUseLogger = allMiddlewareClasses.some(Md => core.middlewareUseLogger(Md));
         const useLogger = routeUseLogger || middlewaresUseLogger;
 
+        const versions = getRouteVersions(target.prototype, route.methodName, core.config.versioning);
+
+        /** report conflicts with previously registered routes */
+        core.decoratorValidator?.validateRoute({
+          method: route.method,
+          path: fullPath,
+          host,
+          versions,
+          controller: target,
+          methodName: route.methodName,
+        });
+
         /** register route with radix3 in core */
-        core.addRoute(
-          fullPath,
-          route.method,
-          handler,
-          allMiddlewares,
-          target.name,
-          route.defaultStatus,
-          useLogger
-        );
+        core.addRoute(fullPath, route.method, handler, allMiddlewares, {
+          source: target.name,
+          controller: target,
+          defaultStatus: route.defaultStatus,
+          useLogger,
+          versions,
+          host,
+          methodName: route.methodName,
+          middlewareNames: allMiddlewareClasses.map(Md => Md.name || '<anonymous>'),
+          pipeNames: Pipes.map(Pipe => Pipe.name),
+          swagger: getMetadata(ReflectMetadata.SWAGGER_OPERATION, target.prototype, route.methodName),
+          filters: [routeFilters, controllerFilters],
+          hooks,
+        });
       }
     };
   };
 }
-
-function joinPaths(base: string, path: string): string {
-  const normalizedBase = base.endsWith('/') ? base.slice(0, -1) : base;
-  const normalizedPath = path.startsWith('/') ? path : '/' + path;
-
-  if (normalizedBase === '' && normalizedPath === '/') {
-    return '/';
-  }
-  if (normalizedBase === '') {
-    return normalizedPath;
-  }
-  if (normalizedPath === '/') {
-    return normalizedBase;
-  }
-  return normalizedBase + normalizedPath;
-}
@@ -0,0 +1,27 @@
+import { Injectable } from './injectable.decorator.js';
+import { ReflectMetadata, defineMetadata } from '../utils/reflect.js';
+import { IExceptionFilter, Constructible } from '../interfaces/index.js';
+
+
+/** Define an Exception filter catching given error classes (or any error if none) */
+export function Catch(...errors: Constructible<Error>[]): ClassDecorator {
+  return function (target: Function): void {
+    Injectable()(target);
+    defineMetadata(ReflectMetadata.CATCH, errors, target);
+  };
+}
+
+/** Applies exception filters to all routes in the controller or a specific one */
+export function UseFilters(...filters: Constructible<IExceptionFilter>[]): ClassDecorator & MethodDecorator {
+  return function (
+    target: object | Function,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    if (propertyKey && descriptor) {
+      defineMetadata(ReflectMetadata.FILTERS, filters, target, propertyKey);
+    } else {
+      defineMetadata(ReflectMetadata.FILTERS, filters, (<Function>target).prototype);
+    }
+  };
+}
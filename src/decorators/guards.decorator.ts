@@ -0,0 +1,35 @@
+import { Injectable } from './injectable.decorator.js';
+import { ReflectMetadata, defineMetadata, getMetadata } from '../utils/reflect.js';
+import { ICanActivate, Constructible } from '../interfaces/index.js';
+
+
+/** Define a Guard */
+export const Guard = Injectable;
+
+/** Applies guards to all routes in the controller or a specific one (use to authorize requests) */
+export function UseGuards(...guards: Constructible<ICanActivate>[]): ClassDecorator & MethodDecorator {
+  return function (
+    target: object | Function,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    if (propertyKey && descriptor) {
+      defineMetadata(ReflectMetadata.GUARDS, guards, target, propertyKey);
+    } else {
+      defineMetadata(ReflectMetadata.GUARDS, guards, (<Function>target).prototype);
+    }
+  };
+}
+
+/** Set custom metadata on a controller or a route, readable from guards and interceptors execution context */
+export function SetMetadata(key: string, value: unknown): ClassDecorator & MethodDecorator {
+  return function (
+    target: object | Function,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    const metadataTarget = propertyKey && descriptor ? target : (<Function>target).prototype;
+    const metadata = getMetadata(ReflectMetadata.CUSTOM_METADATA, metadataTarget, propertyKey) || {};
+    defineMetadata(ReflectMetadata.CUSTOM_METADATA, { ...metadata, [key]: value }, metadataTarget, propertyKey);
+  };
+}
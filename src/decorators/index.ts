@@ -4,6 +4,10 @@ export * from './controller.decorator.js';
 export * from './http-status.decorator.js';
 export * from './middleware.decorator.js';
 export * from './pipes.decorator.js';
+export * from './filters.decorator.js';
+export * from './interceptors.decorator.js';
+export * from './guards.decorator.js';
+export * from './version.decorator.js';
 export * from './methods.decorator.js';
 export * from './params.decorator.js';
 export * from './injectable.decorator.js';
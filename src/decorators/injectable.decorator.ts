@@ -1,6 +1,6 @@
 import { Scopes } from '../enums/index.js';
 import { ReflectMetadata, defineMetadata, getMetadata } from '../utils/reflect.js';
-import { Constructible } from '../interfaces/index.js';
+import { Constructible, DependencyToken, ProviderToken } from '../interfaces/index.js';
 
 
 /**
@@ -18,14 +18,81 @@ export function Injectable(): ClassDecorator {
  * Usage:
  * - Class constructor parameters: Only needed for custom token injection
  * - Controller/middleware method parameters: Required for any dependency injection
+ * - Class properties: Injected after construction (e.g. in base classes not forwarding constructor arguments)
+ * @param token string, symbol or class registered in app config injections,
+ * or `forwardRef(() => Class)` for circular dependencies
  */
-export function Inject(token?: string): ParameterDecorator {
+export function Inject(token?: DependencyToken): ParameterDecorator & PropertyDecorator {
+  return injectDependency(token);
+}
+
+/**
+ * Injects all contributions of a multi-provider token as an array, in registration order —
+ * See `multi: true` in app config injections
+ */
+export function InjectAll(token: ProviderToken): ParameterDecorator & PropertyDecorator {
+  const inject = injectDependency(token);
+  const markMulti = markDependency(ReflectMetadata.MULTI_DEPS);
+
+  return function (target: object, propertyKey: string | symbol | undefined, index?: number): void {
+    inject(target, propertyKey, index);
+    markMulti(target, propertyKey, index);
+  };
+}
+
+/**
+ * Mark a constructor, method parameter or property dependency as optional —
+ * Resolved to `undefined` instead of raising a validation error
+ * when its token is not registered or its class is not injectable
+ */
+export function Optional(): ParameterDecorator & PropertyDecorator {
+  return markDependency(ReflectMetadata.OPTIONAL_DEPS);
+}
+
+/**
+ * Define scope of dependency injection
+ * - SHARED (default): Use singleton instance shared across the application
+ * - LOCAL: New instance the injection context
+ * - DEEP_LOCAL: New instance, propagates locality to its own dependencies
+ * - REQUEST: New instance for each request, disposed once response is sent —
+ *   only on controller and middleware method parameters, and dependencies of request-scoped classes
+ */
+export function Scope(scope: Scopes): ParameterDecorator {
   return function (
     target: object,
     propertyKey: string | symbol | undefined,
     index: number
   ): void {
     if (propertyKey) {
+      const methodName = String(propertyKey);
+      const scopes = getMetadata(ReflectMetadata.DEP_SCOPES, target, methodName) || {};
+      scopes[index] = scope;
+      defineMetadata(ReflectMetadata.DEP_SCOPES, scopes, target, methodName);
+    }
+    const scopes = getMetadata(ReflectMetadata.DEP_SCOPES, target) || {};
+    scopes[index] = scope;
+    defineMetadata(ReflectMetadata.DEP_SCOPES, scopes, target);
+  };
+}
+
+
+/** Parameter or property decorator */
+type DependencyDecorator = (
+  target: object,
+  propertyKey: string | symbol | undefined,
+  index?: number
+) => void;
+
+function injectDependency(token?: DependencyToken): DependencyDecorator {
+  return function (target, propertyKey, index): void {
+    if (propertyKey && index === undefined) {
+      /** copy inherited properties injections to keep base classes ones untouched */
+      const propertiesDeps = { ...getMetadata(ReflectMetadata.PROPERTY_INJECTED_DEPS, target) };
+      propertiesDeps[propertyKey] = token
+        || <Constructible>getMetadata(ReflectMetadata.DESIGN_TYPE, target, propertyKey);
+      defineMetadata(ReflectMetadata.PROPERTY_INJECTED_DEPS, propertiesDeps, target);
+
+    } else if (propertyKey && index !== undefined) {
       const methodName = String(propertyKey);
       const methodsDeps = getMetadata(ReflectMetadata.METHOD_INJECTED_DEPS, target) || {};
       if (!methodsDeps[methodName]) {
@@ -39,7 +106,7 @@ export function Inject(token?: string): ParameterDecorator {
       }
       defineMetadata(ReflectMetadata.METHOD_INJECTED_DEPS, methodsDeps, target);
 
-    } else if (token) {
+    } else if (token && index !== undefined) {
       const deps = getMetadata(ReflectMetadata.PRE_INJECTED_DEPS, target) || {};
       deps[index] = token;
       defineMetadata(ReflectMetadata.PRE_INJECTED_DEPS, deps, target);
@@ -47,26 +114,22 @@ export function Inject(token?: string): ParameterDecorator {
   };
 }
 
-/**
- * Define scope of dependency injection
- * - SHARED (default): Use singleton instance shared across the application
- * - LOCAL: New instance the injection context
- * - DEEP_LOCAL: New instance, propagates locality to its own dependencies
- */
-export function Scope(scope: Scopes): ParameterDecorator {
-  return function (
-    target: object,
-    propertyKey: string | symbol | undefined,
-    index: number
-  ): void {
-    if (propertyKey) {
-      const methodName = String(propertyKey);
-      const scopes = getMetadata(ReflectMetadata.DEP_SCOPES, target, methodName) || {};
-      scopes[index] = scope;
-      defineMetadata(ReflectMetadata.DEP_SCOPES, scopes, target, methodName);
+/** flag a constructor parameter (class), method parameter (prototype & method) or property (prototype) */
+function markDependency(
+  key: ReflectMetadata.OPTIONAL_DEPS | ReflectMetadata.MULTI_DEPS
+): DependencyDecorator {
+  return function (target, propertyKey, index): void {
+    if (index === undefined) {
+      if (propertyKey) {
+        const flags = { ...getMetadata(key, target) };
+        flags[propertyKey] = true;
+        defineMetadata(key, flags, target);
+      }
+      return;
     }
-    const scopes = getMetadata(ReflectMetadata.DEP_SCOPES, target) || {};
-    scopes[index] = scope;
-    defineMetadata(ReflectMetadata.DEP_SCOPES, scopes, target);
+    const methodName = propertyKey ? String(propertyKey) : undefined;
+    const flags = getMetadata(key, target, methodName) || {};
+    flags[index] = true;
+    defineMetadata(key, flags, target, methodName);
   };
 }
@@ -0,0 +1,22 @@
+import { Injectable } from './injectable.decorator.js';
+import { ReflectMetadata, defineMetadata } from '../utils/reflect.js';
+import { IInterceptor, Constructible } from '../interfaces/index.js';
+
+
+/** Define an Interceptor */
+export const Interceptor = Injectable;
+
+/** Applies interceptors to all routes in the controller or a specific one (use to wrap handlers and map results) */
+export function UseInterceptors(...interceptors: Constructible<IInterceptor>[]): ClassDecorator & MethodDecorator {
+  return function (
+    target: object | Function,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    if (propertyKey && descriptor) {
+      defineMetadata(ReflectMetadata.INTERCEPTORS, interceptors, target, propertyKey);
+    } else {
+      defineMetadata(ReflectMetadata.INTERCEPTORS, interceptors, (<Function>target).prototype);
+    }
+  };
+}
@@ -59,3 +59,9 @@ export const Put: RouteDecorator = routeDecorator(RouteMethods.PUT);
 export const Delete: RouteDecorator = routeDecorator(RouteMethods.DELETE);
 /** Define a PATCH endpoint with optional middleware */
 export const Patch: RouteDecorator = routeDecorator(RouteMethods.PATCH);
+/** Define a HEAD endpoint with optional middleware (GET routes answer HEAD automatically) */
+export const Head: RouteDecorator = routeDecorator(RouteMethods.HEAD);
+/** Define an OPTIONS endpoint with optional middleware (replaces the automatic Allow response) */
+export const Options: RouteDecorator = routeDecorator(RouteMethods.OPTIONS);
+/** Define an endpoint matching any HTTP method with optional middleware */
+export const All: RouteDecorator = routeDecorator(RouteMethods.ALL);
@@ -113,10 +113,15 @@ export const Header: RouteReqParamDecorator = routeRequestParamDecorator(RouteRe
 /** Extracts specific path parameter from `req.params[name]`
  *  @param items If you are expecting an array, specify the type of items */
 export const Param: RouteReqParamDecorator = routeRequestParamDecorator(RouteRequestParamTypes.PARAM);
+/** Extracts specific host parameter from `req.hostParams[name]` - See `@Controller` host option
+ *  @param items If you are expecting an array, specify the type of items */
+export const HostParam: RouteReqParamDecorator = routeRequestParamDecorator(RouteRequestParamTypes.HOST_PARAM);
 /** Extracts specific query parameter from `req.query[name]`
  *  @param items If you are expecting an array, specify the type of items */
 export const Query: RouteReqParamDecorator = routeRequestParamDecorator(RouteRequestParamTypes.QUERY);
 /** Extracts specific body property or entire body if propertyName omitted */
 export const Body: RouteReqParamDecorator = routeRequestParamDecorator(RouteRequestParamTypes.BODY);
+/** Injects route matched by the request from `req.route`, or a specific property (e.g. `path` pattern) */
+export const Route: RouteReqParamDecorator = routeRequestParamDecorator(RouteRequestParamTypes.ROUTE);
 /** Injects timed logger instance dedicated to the current request */
 export const Logger: RouteReqParamDecorator = routeRequestParamDecorator('_logger');
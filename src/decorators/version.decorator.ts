@@ -0,0 +1,17 @@
+import { ReflectMetadata, defineMetadata } from '../utils/reflect.js';
+
+
+/** Restricts all routes in the controller or a specific one to API version(s) - See `versioning` config */
+export function Version(...versions: string[]): ClassDecorator & MethodDecorator {
+  return function (
+    target: object | Function,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    if (propertyKey && descriptor) {
+      defineMetadata(ReflectMetadata.VERSION, versions, target, propertyKey);
+    } else {
+      defineMetadata(ReflectMetadata.VERSION, versions, (<Function>target).prototype);
+    }
+  };
+}
@@ -11,6 +11,8 @@ export enum RouteRequestParamTypes {
   PARAM = 'params',
   QUERY = 'query',
   BODY = 'body',
+  HOST_PARAM = 'hostParams',
+  ROUTE = 'route',
 }
 
 /** HTTP verbs, lowercase, internal use */
@@ -20,4 +22,8 @@ export enum RouteMethods {
   PUT = 'put',
   DELETE = 'delete',
   PATCH = 'patch',
+  HEAD = 'head',
+  OPTIONS = 'options',
+  /** Matches any HTTP verb not explicitly routed on the same path */
+  ALL = 'all',
 }
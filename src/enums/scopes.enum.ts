@@ -3,4 +3,6 @@ export enum Scopes {
   LOCAL = 'local',
   DEEP_LOCAL = 'deepLocal',
   SHARED = 'shared',
+  /** New instance for each request, disposed once response is sent */
+  REQUEST = 'request',
 }
@@ -3,6 +3,8 @@
 import 'reflect-metadata';
 
 import * as base from './base.js';
+import * as testing from './testing.js';
+import * as testClient from './test-client.js';
 import * as decorators from './decorators/index.js';
 import * as enums from './enums/index.js';
 import * as interfaces from './interfaces/index.js';
@@ -10,6 +12,8 @@ import * as web from './web.js';
 import * as utils from './utils/index.js';
 
 export * from './base.js';
+export * from './testing.js';
+export * from './test-client.js';
 export * from './decorators/index.js';
 export * from './enums/index.js';
 export * from './interfaces/index.js';
@@ -18,6 +22,8 @@ export * from './utils/index.js';
 
 export default {
   ...base,
+  ...testing,
+  ...testClient,
   ...decorators,
   ...enums,
   ...interfaces,
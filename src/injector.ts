@@ -3,7 +3,18 @@ import { Scopes } from './enums/index.js';
 import { LoggerService } from './utils/index.js';
 import { DecoratorValidator } from './utils/decorator-validator.js';
 import { ReflectMetadata, getMetadata, defineMetadata } from './utils/reflect.js';
-import { Constructible, Instance } from './interfaces/index.js';
+import { ForwardRef, RequestScopedDependency, getTokenName } from './utils/injection.js';
+import { DependencyGraphRecorder } from './utils/dependency-graph.js';
+import {
+  Constructible,
+  DependencyGraph,
+  DependencyGraphEdge,
+  DependencyToken,
+  Injection,
+  Instance,
+  ProviderToken,
+} from './interfaces/index.js';
+import { YasuiRequest } from './web.js';
 
 
 const InheritedScopes: Scopes[] = [
@@ -11,57 +22,113 @@ const InheritedScopes: Scopes[] = [
 ];
 
 export class Injector {
+  /** <token, instance> — classes are keyed by constructor, not by name, so homonymous classes never collide */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private registry: Map<string | symbol, any>;
-  private buildStack: Set<string>;
+  private registry: Map<ProviderToken, any>;
+  /** <multi-provider token, contributions in registration order> */
+  private multiRegistry: Map<ProviderToken, Instance[]>;
+  /** <class, custom injection replacing it in every scope (e.g. testing overrides)> */
+  private classProviders: Map<Function, Injection>;
+  /** classes being built, in build order */
+  private buildStack: Set<Function>;
+  /** resolvers of forward referenced instances not built yet */
+  private pendingForwardRefs: (() => Instance)[];
+  /** <request, <class, request-scoped instance>> */
+  private requestRegistries: WeakMap<YasuiRequest, Map<Function, Instance>>;
+  /** built and factory-created instances, in dependency order, for lifecycle hooks */
+  private instances: Set<Instance>;
+  private initialized: boolean;
+  private bootstrapped: boolean;
+  /** lifecycle hooks of instances built after init, run one after the other */
+  private lateHooks: Promise<void>;
+  private graph: DependencyGraphRecorder;
 
   constructor(
     private readonly logger: LoggerService,
     private readonly decoratorValidator: DecoratorValidator | null,
     private readonly debug = false,
   ) {
-    this.registry = new Map<string | symbol, Instance>();
-    this.buildStack = new Set<string>();
+    this.registry = new Map<ProviderToken, Instance>();
+    this.multiRegistry = new Map();
+    this.classProviders = new Map();
+    this.buildStack = new Set<Function>();
+    this.pendingForwardRefs = [];
+    this.requestRegistries = new WeakMap();
+    this.instances = new Set();
+    this.initialized = false;
+    this.bootstrapped = false;
+    this.lateHooks = Promise.resolve();
+    this.graph = new DependencyGraphRecorder();
   }
 
 
-  public get<T extends Instance>(name: string | symbol): T {
-    return this.registry.get(name) as T;
+  public get<T>(token: ProviderToken<T>): T {
+    return this.registry.get(token) as T;
   }
 
   public register<T>(
-    token: string | symbol,
+    token: ProviderToken<T>,
     instance: T
   ): void {
     this.registry.set(token, instance);
 
     if (this.debug) {
-      const name: string = (typeof token === 'symbol' && token.description)
-        ? kleur.yellow(token.description)
-        : token.toString();
+      const name: string = typeof token === 'string'
+        ? token
+        : kleur.yellow(getTokenName(token));
       this.logger.debug(`register ${name}`);
     }
   }
 
+  /** get all contributions of a multi-provider token, in registration order */
+  public getAll<T>(token: ProviderToken<T>): T[] {
+    return [...(this.multiRegistry.get(token) || [])] as T[];
+  }
+
+  /** add a contribution to a multi-provider token */
+  public registerMulti<T>(
+    token: ProviderToken<T>,
+    instance: T
+  ): void {
+    const contributions = this.multiRegistry.get(token) || [];
+    contributions.push(<Instance>instance);
+    this.multiRegistry.set(token, contributions);
+
+    if (this.debug) {
+      const name: string = typeof token === 'string'
+        ? token
+        : kleur.yellow(getTokenName(token));
+      this.logger.debug(`register ${name} contribution #${contributions.length}`);
+    }
+  }
+
+  /** resolve a registered token, class tokens are built if not registered */
+  public resolve<T = Instance>(token: ProviderToken<T>): T {
+    return typeof token === 'function'
+      ? this.build(<Constructible>token) as T
+      : this.get(token);
+  }
+
   public deferred<T extends Instance>(
-    token: string,
+    token: ProviderToken,
     factory: () => Promise<T>
   ): void {
     let resolvedInstance: T | null = null;
+    const name: string = getTokenName(token);
 
     factory()
       .then((instance) => {
         if (!instance || typeof instance !== 'object') {
-          throw new Error(`Deferred injection '${token}' must return an object, got ${typeof instance}`);
+          throw new Error(`Deferred injection '${name}' must return an object, got ${typeof instance}`);
         }
         if (this.debug) {
-          this.logger.debug(`deferred injection ${token} ready`);
+          this.logger.debug(`deferred injection ${name} ready`);
         }
         resolvedInstance = instance;
         return instance;
       })
       .catch((err) => {
-        this.logger.error(`failed to resolve deferred injection '${token}':\n${err}`);
+        this.logger.error(`failed to resolve deferred injection '${name}':\n${err}`);
       });
 
     /** create a proxy that returns null while not ready */
@@ -80,64 +147,493 @@ export class Injector {
     this.register(token, proxy as T);
   }
 
+  /** register custom injections, each provider is resolved after the injections it depends on */
+  public async registerInjections(injections: Injection[]): Promise<void> {
+    /** <token, injections registered under token (several for multi-providers)> */
+    const providers = new Map<ProviderToken, Injection[]>();
+    for (const injection of injections) {
+      providers.set(injection.token, [...(providers.get(injection.token) || []), injection]);
+    }
+    const resolved = new Set<ProviderToken>();
+    /** tokens of a providers cycle, or depending on one, are not registered */
+    const unresolvable = new Set<ProviderToken>();
+    const resolving: ProviderToken[] = [];
+
+    const resolveInjection = async (token: ProviderToken): Promise<boolean> => {
+      if (resolved.has(token) || unresolvable.has(token)) {
+        return resolved.has(token);
+      }
+      const pendingIdx: number = resolving.indexOf(token);
+      if (pendingIdx !== -1) {
+        const cycle: ProviderToken[] = [...resolving.slice(pendingIdx), token];
+        this.decoratorValidator?.validateInjectionCycle(cycle);
+        cycle.forEach((cycleToken) => unresolvable.add(cycleToken));
+        return false;
+      }
+      const tokenInjections = providers.get(token);
+      /** only classes built by the injector can need registered injections first */
+      const deps: ProviderToken[] = tokenInjections
+        ? tokenInjections.flatMap((injection) => this.getInjectionDependencies(injection))
+        : typeof token === 'function' && getMetadata(ReflectMetadata.INJECTABLE, token)
+          ? this.getClassDependencies(token)
+          : [];
+
+      resolving.push(token);
+      let resolvable = true;
+      for (const dep of deps) {
+        resolvable = await resolveInjection(dep) && resolvable;
+      }
+      resolving.pop();
+      if (!resolvable || unresolvable.has(token)) {
+        unresolvable.add(token);
+        return false;
+      }
+      resolved.add(token);
+
+      for (const injection of tokenInjections || []) {
+        await this.registerInjection(token, injection);
+      }
+      return true;
+    };
+
+    for (const injection of injections) {
+      await resolveInjection(injection.token);
+    }
+  }
+
   /** instantiates constructible by deeply binding dependencies */
   public build<T extends Instance>(
     Provided: Constructible<T>,
     scope: Scopes = Scopes.SHARED
   ): T {
-    const className = Provided.name;
+    this.graph.addNode(Provided, scope);
+
+    const provider: Injection | undefined = this.classProviders.get(Provided);
+    if (provider && scope !== Scopes.SHARED) {
+      /** provided classes are built in the requested scope, other providers are shared */
+      return 'useClass' in provider && provider.useClass !== Provided
+        ? this.build(provider.useClass, scope)
+        : this.get(Provided);
+    }
 
-    const token: string | symbol = this.getToken(className, scope);
+    const token: Function | symbol = this.getToken(Provided, scope);
     const runningInstance: T = this.get(token);
 
     if (runningInstance) {
       return runningInstance;
     }
 
-    this.buildStack.add(className);
+    this.buildStack.add(Provided);
 
     try {
-      const dependencies: Instance[] = this.buildDependencies(Provided, scope);
+      const dependencies: (Instance | undefined)[] = this.buildDependencies(Provided, scope);
       const instance: T = new Provided(...dependencies);
+      this.injectProperties(Provided, instance, scope);
       this.markMethodsDependencies(Provided, instance, scope);
       this.register(token, instance);
+      this.track(instance);
 
     } finally {
-      this.buildStack.delete(className);
+      this.buildStack.delete(Provided);
     }
+    this.resolveForwardRefs();
     return this.get(token);
   }
 
 
+  /** instantiates request-scoped constructible once per request, its dependencies can inject the request */
+  public buildForRequest<T extends Instance>(
+    Provided: Constructible<T>,
+    req: YasuiRequest
+  ): T {
+    const provider: Injection | undefined = this.classProviders.get(Provided);
+    if (provider) {
+      return 'useClass' in provider && provider.useClass !== Provided
+        ? this.buildForRequest(provider.useClass, req)
+        : this.get(Provided);
+    }
+
+    let registry = this.requestRegistries.get(req);
+    if (!registry) {
+      registry = new Map();
+      this.requestRegistries.set(req, registry);
+    }
+    const runningInstance = registry.get(Provided);
+    if (runningInstance) {
+      return runningInstance as T;
+    }
+    this.graph.addNode(Provided, Scopes.REQUEST);
+
+    this.buildStack.add(Provided);
+    try {
+      const dependencies: (Instance | undefined)[] = this.buildDependencies(Provided, Scopes.REQUEST, req);
+      const instance: T = new Provided(...dependencies);
+      this.injectProperties(Provided, instance, Scopes.REQUEST, req);
+      registry.set(Provided, instance);
+    } finally {
+      this.buildStack.delete(Provided);
+    }
+    this.resolveForwardRefs();
+    return registry.get(Provided) as T;
+  }
+
+  /** whether request-scoped instances were built for a request */
+  public hasRequestScope(req: YasuiRequest): boolean {
+    return this.requestRegistries.has(req);
+  }
+
+  /** classes and tokens resolved so far, with their constructor, method, property and providers dependencies */
+  public getDependencyGraph(): DependencyGraph {
+    return this.graph.getGraph();
+  }
+
+  /** call `onInit` of instances in dependency order, instances built afterwards are initialized on build */
+  public async init(): Promise<void> {
+    for (const instance of this.instances) {
+      await instance.onInit?.();
+    }
+    this.initialized = true;
+  }
+
+  /** call `onBootstrap` of instances in dependency order, instances built afterwards are bootstrapped on build */
+  public async bootstrap(): Promise<void> {
+    await this.lateHooks;
+    for (const instance of this.instances) {
+      await instance.onBootstrap?.();
+    }
+    this.bootstrapped = true;
+  }
+
+  /** resolves once lifecycle hooks of instances built after init are done */
+  public ready(): Promise<void> {
+    return this.lateHooks;
+  }
+
+  /** call `onShutdown` then dispose instances in reverse dependency order, errors do not stop the shutdown */
+  public async shutdown(signal?: string): Promise<void> {
+    const instances = [...this.instances].reverse();
+    this.instances.clear();
+
+    for (const instance of instances) {
+      try {
+        await instance.onShutdown?.(signal);
+        await (instance[Symbol.asyncDispose] || instance[Symbol.dispose])?.call(instance);
+      } catch (err) {
+        this.logger.error(`failed to shut down ${instance.constructor?.name || 'injection'}:\n${err}`);
+      }
+    }
+  }
+
+  /** dispose request-scoped instances of a request, in reverse creation order */
+  public async disposeRequest(req: YasuiRequest): Promise<void> {
+    const registry = this.requestRegistries.get(req);
+    if (!registry) {
+      return;
+    }
+    this.requestRegistries.delete(req);
+
+    for (const instance of [...registry.values()].reverse()) {
+      try {
+        await (instance[Symbol.asyncDispose] || instance[Symbol.dispose])?.call(instance);
+      } catch (err) {
+        this.logger.error(`failed to dispose request-scoped ${instance.constructor.name}:\n${err}`);
+      }
+    }
+  }
+
+
   /** build sub-dependencies or directly map token registered injection */
   private buildDependencies<T extends Instance>(
     Provided: Constructible<T>,
-    scope: Scopes
-  ): Instance[] {
+    scope: Scopes,
+    req?: YasuiRequest
+  ): (Instance | undefined)[] {
     /** inject via constructor param types or pre-registered token injections */
     const deps = getMetadata(ReflectMetadata.DESIGN_PARAM_TYPES, Provided) || [];
     const preInjectedDeps = getMetadata(ReflectMetadata.PRE_INJECTED_DEPS, Provided) || {};
 
     const depScopes = getMetadata(ReflectMetadata.DEP_SCOPES, Provided) || {};
+    const optionalDeps = getMetadata(ReflectMetadata.OPTIONAL_DEPS, Provided) || {};
+    const multiDeps = getMetadata(ReflectMetadata.MULTI_DEPS, Provided) || {};
 
     return deps.map((Dep: Function, idx: number) => {
 
-      if (preInjectedDeps[idx]) {
-        this.decoratorValidator?.validateInjectionToken(Provided.name, preInjectedDeps[idx], Dep, idx);
-        return this.get(preInjectedDeps[idx]);
-      }
-
-      this.decoratorValidator?.validateInjectable(Dep, scope, this.buildStack);
+      const preInjectedDep: DependencyToken | undefined = preInjectedDeps[idx];
 
       /** spread current scope according to its type */
       const depScope: Scopes = InheritedScopes.includes(scope)
         ? scope
         : (depScopes[idx] || Scopes.SHARED);
 
-      return this.build(<Constructible>Dep, depScope);
+      this.recordDependency(Provided, preInjectedDep || Dep, {
+        kind: 'constructor',
+        position: idx,
+        scope: depScope,
+        optional: optionalDeps[idx],
+        multi: multiDeps[idx],
+      });
+
+      if (multiDeps[idx]) {
+        return this.resolveAll(Provided, <ProviderToken>preInjectedDep, idx, optionalDeps[idx]);
+      }
+
+      if (optionalDeps[idx] && !this.isResolvable(preInjectedDep || Dep)) {
+        return undefined;
+      }
+
+      if (preInjectedDep instanceof ForwardRef) {
+        this.decoratorValidator?.validateForwardRef(Provided, preInjectedDep, idx);
+        return this.forwardDependency(Provided, preInjectedDep, scope, depScope, req);
+      }
+
+      if (preInjectedDep) {
+        this.decoratorValidator?.validateInjectionToken(Provided, preInjectedDep, Dep, idx);
+        return this.resolve(preInjectedDep);
+      }
+
+      return this.buildDependency(Provided, Dep, scope, depScope, req);
+    });
+  }
+
+  private buildDependency<T extends Instance>(
+    Provided: Constructible<T>,
+    Dep: Function,
+    scope: Scopes,
+    depScope: Scopes,
+    req?: YasuiRequest
+  ): Instance {
+    /** current request and request-scoped dependencies are only available when building for a request */
+    if (Dep === YasuiRequest || depScope === Scopes.REQUEST) {
+      if (!req) {
+        throw new Error(
+          `${Provided.name} cannot inject ${Dep.name} out of a request scope — ` +
+          'use @Inject() @Scope(Scopes.REQUEST) on a controller or middleware method parameter'
+        );
+      }
+      if (Dep === YasuiRequest) {
+        return req;
+      }
+    }
+
+    this.decoratorValidator?.validateInjectable(Dep, scope, this.buildStack);
+
+    return depScope === Scopes.REQUEST && req
+      ? this.buildForRequest(<Constructible>Dep, req)
+      : this.build(<Constructible>Dep, depScope);
+  }
+
+  /** inject class properties dependencies once constructed */
+  private injectProperties<T extends Instance>(
+    Provided: Constructible<T>,
+    instance: T,
+    scope: Scopes,
+    req?: YasuiRequest
+  ): void {
+    const propertiesDeps = getMetadata(ReflectMetadata.PROPERTY_INJECTED_DEPS, Provided.prototype) || {};
+    const optionalDeps = getMetadata(ReflectMetadata.OPTIONAL_DEPS, Provided.prototype) || {};
+    const multiDeps = getMetadata(ReflectMetadata.MULTI_DEPS, Provided.prototype) || {};
+
+    for (const propertyKey of Reflect.ownKeys(propertiesDeps)) {
+      const Dep: DependencyToken = propertiesDeps[propertyKey];
+      const depScope: Scopes = InheritedScopes.includes(scope) ? scope : Scopes.SHARED;
+
+      this.recordDependency(Provided, Dep, {
+        kind: 'property',
+        position: String(propertyKey),
+        scope: depScope,
+        optional: optionalDeps[propertyKey],
+        multi: multiDeps[propertyKey],
+      });
+
+      if (multiDeps[propertyKey]) {
+        const contributions = this.resolveAll(
+          Provided,
+          <ProviderToken>Dep,
+          String(propertyKey),
+          optionalDeps[propertyKey]
+        );
+        Object.assign(instance, { [propertyKey]: contributions });
+        continue;
+      }
+
+      if (optionalDeps[propertyKey] && !this.isResolvable(Dep)) {
+        continue;
+      }
+
+      if (Dep instanceof ForwardRef) {
+        this.decoratorValidator?.validateForwardRef(Provided, Dep, String(propertyKey));
+        Object.assign(instance, { [propertyKey]: this.forwardDependency(Provided, Dep, scope, depScope, req) });
+        continue;
+      }
+
+      if (typeof Dep !== 'function') {
+        const propertyType = getMetadata(ReflectMetadata.DESIGN_TYPE, Provided.prototype, propertyKey);
+        this.decoratorValidator?.validateInjectionToken(Provided, Dep, propertyType, String(propertyKey));
+        Object.assign(instance, { [propertyKey]: this.get(Dep) });
+        continue;
+      }
+
+      Object.assign(instance, { [propertyKey]: this.buildDependency(Provided, Dep, scope, depScope, req) });
+    }
+  }
+
+  /** lazy proxy of a forward referenced class, its instance is built on first use or once the current build ends */
+  private forwardDependency(
+    Provided: Constructible,
+    ref: ForwardRef,
+    scope: Scopes,
+    depScope: Scopes,
+    req?: YasuiRequest
+  ): Instance {
+    let resolvedInstance: Instance | null = null;
+    const resolveInstance = (): Instance => {
+      if (!resolvedInstance) {
+        const Dep: Function = ref.resolve();
+        /** used by a constructor of its own dependencies, while not built yet */
+        if (this.buildStack.has(Dep)) {
+          const buildStack: string = [...this.buildStack].map(({ name }) => name).join(' -> ');
+          throw new Error(
+            `Circular dependency detected: forward referenced ${Dep.name} is used in a constructor ` +
+            `while being built (${buildStack})`
+          );
+        }
+        resolvedInstance = this.buildDependency(Provided, Dep, scope, depScope, req);
+      }
+      return resolvedInstance;
+    };
+    this.pendingForwardRefs.push(resolveInstance);
+
+    return new Proxy({}, {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      get: (target, prop): any => {
+        const instance = resolveInstance();
+        const value = instance[prop];
+        return typeof value === 'function' ? value.bind(instance) : value;
+      },
+      set: (target, prop, value): boolean => Reflect.set(resolveInstance(), prop, value),
+      has: (target, prop): boolean => prop in resolveInstance(),
+      getPrototypeOf: (): object | null => Object.getPrototypeOf(resolveInstance()),
     });
   }
 
+  /** build forward referenced instances once no class is being built, both sides of their cycle exist */
+  private resolveForwardRefs(): void {
+    while (!this.buildStack.size && this.pendingForwardRefs.length) {
+      this.pendingForwardRefs.shift()!();
+    }
+  }
+
+  /** add a dependency to the dependency graph, except the current request */
+  private recordDependency(
+    Provided: Function,
+    Dep: DependencyToken | undefined,
+    edge: Omit<DependencyGraphEdge, 'from' | 'to' | 'forward'>
+  ): void {
+    if (Dep !== YasuiRequest) {
+      this.graph.addEdge(Provided, Dep, edge);
+    }
+  }
+
+  /** keep instance for lifecycle hooks, initialized (and bootstrapped) right away if built after init */
+  private track(instance: unknown): void {
+    if (!instance || typeof instance !== 'object' || this.instances.has(instance)) {
+      return;
+    }
+    this.instances.add(instance);
+
+    if (this.initialized) {
+      this.lateHooks = this.lateHooks.then(() => this.runLateHooks(<Instance>instance));
+    }
+  }
+
+  private async runLateHooks(instance: Instance): Promise<void> {
+    try {
+      await instance.onInit?.();
+      if (this.bootstrapped) {
+        await instance.onBootstrap?.();
+      }
+    } catch (err) {
+      this.logger.error(`failed to initialize ${instance.constructor?.name || 'injection'}:\n${err}`);
+    }
+  }
+
+  /** build shared dependencies of a request-scoped class with the app, so they are initialized before routes go live */
+  private buildSharedDependencies(Provided: Constructible, visited = new Set<Function>()): void {
+    const provider: Injection | undefined = this.classProviders.get(Provided);
+    if (provider && 'useClass' in provider && provider.useClass !== Provided) {
+      return this.buildSharedDependencies(provider.useClass, visited);
+    }
+    if (provider || visited.has(Provided)) {
+      return;
+    }
+    visited.add(Provided);
+
+    const deps = getMetadata(ReflectMetadata.DESIGN_PARAM_TYPES, Provided) || [];
+    const preInjectedDeps = getMetadata(ReflectMetadata.PRE_INJECTED_DEPS, Provided) || {};
+    const depScopes = getMetadata(ReflectMetadata.DEP_SCOPES, Provided) || {};
+    const optionalDeps = getMetadata(ReflectMetadata.OPTIONAL_DEPS, Provided) || {};
+    const multiDeps = getMetadata(ReflectMetadata.MULTI_DEPS, Provided) || {};
+    const propertiesDeps = getMetadata(ReflectMetadata.PROPERTY_INJECTED_DEPS, Provided.prototype) || {};
+    const propertiesOptionalDeps = getMetadata(ReflectMetadata.OPTIONAL_DEPS, Provided.prototype) || {};
+    const propertiesMultiDeps = getMetadata(ReflectMetadata.MULTI_DEPS, Provided.prototype) || {};
+
+    /** constructor and properties dependencies, tokens and forward references are resolved on request */
+    const classDeps: { Dep?: DependencyToken; depScope: Scopes; optional?: boolean }[] = [
+      ...deps.map((Dep: Function, idx: number) => ({
+        Dep: multiDeps[idx] ? undefined : preInjectedDeps[idx] || Dep,
+        depScope: depScopes[idx] || Scopes.SHARED,
+        optional: optionalDeps[idx],
+      })),
+      ...Reflect.ownKeys(propertiesDeps).map((key) => ({
+        Dep: propertiesMultiDeps[key] ? undefined : propertiesDeps[key],
+        depScope: Scopes.SHARED,
+        optional: propertiesOptionalDeps[key],
+      })),
+    ];
+
+    this.buildStack.add(Provided);
+    try {
+      for (const { Dep, depScope, optional } of classDeps) {
+        if (typeof Dep !== 'function' || Dep === YasuiRequest || (optional && !this.isResolvable(Dep))) {
+          continue;
+        }
+        if (depScope === Scopes.REQUEST) {
+          this.buildSharedDependencies(<Constructible>Dep, visited);
+        } else if (depScope === Scopes.SHARED) {
+          this.buildDependency(Provided, Dep, Scopes.REQUEST, depScope);
+        }
+      }
+    } finally {
+      this.buildStack.delete(Provided);
+    }
+    this.resolveForwardRefs();
+  }
+
+  /** contributions of a multi-provider token, empty when none is registered */
+  private resolveAll(
+    caller: Function,
+    token: ProviderToken,
+    position: number | string,
+    optional?: boolean
+  ): Instance[] {
+    if (!optional || this.multiRegistry.has(token)) {
+      this.decoratorValidator?.validateInjectionToken(caller, token, undefined, position, true);
+    }
+    return this.getAll(token);
+  }
+
+  /** optional dependencies are only resolved when registered or injectable */
+  private isResolvable(token: DependencyToken): boolean {
+    if (token instanceof ForwardRef) {
+      return this.isResolvable(token.resolve());
+    }
+    if (this.registry.has(token)) {
+      return true;
+    }
+    return typeof token === 'function'
+      && (token === YasuiRequest || !!getMetadata(ReflectMetadata.INJECTABLE, token));
+  }
+
   private markMethodsDependencies<T extends Instance>(
     Provided: Constructible<T>,
     instance: T,
@@ -159,44 +655,173 @@ export class Injector {
   private resolveMethodDependencies(
     Provided: Constructible,
     methodName: string,
-    injections: Record<number, Function | string>,
+    injections: Record<number, DependencyToken>,
     scope: Scopes
-  ): Record<number, Instance> {
+  ): Record<number, Instance | undefined> {
     const depScopes = getMetadata(ReflectMetadata.DEP_SCOPES, Provided.prototype, methodName) || {};
     const paramTypes = getMetadata(ReflectMetadata.DESIGN_PARAM_TYPES, Provided.prototype, methodName) || [];
-    const methodDeps: Record<number, Instance> = {};
+    const optionalDeps = getMetadata(ReflectMetadata.OPTIONAL_DEPS, Provided.prototype, methodName) || {};
+    const multiDeps = getMetadata(ReflectMetadata.MULTI_DEPS, Provided.prototype, methodName) || {};
+    const methodDeps: Record<number, Instance | undefined> = {};
 
     for (const paramIndex in injections) {
-      const Dep: Function | string = injections[paramIndex];
+      const Dep: DependencyToken = injections[paramIndex];
+      const depScope: Scopes = InheritedScopes.includes(scope)
+        ? scope
+        : (depScopes[paramIndex] || Scopes.SHARED);
+
+      this.recordDependency(Provided, Dep, {
+        kind: 'method',
+        method: methodName,
+        position: Number(paramIndex),
+        scope: depScope,
+        optional: optionalDeps[paramIndex],
+        multi: multiDeps[paramIndex],
+      });
 
-      if (typeof Dep === 'string') {
-        this.decoratorValidator?.validateInjectionToken(Provided.name, Dep, paramTypes[paramIndex], Number(paramIndex));
-        methodDeps[paramIndex] = this.get(Dep);
+      if (multiDeps[paramIndex]) {
+        methodDeps[paramIndex] = this.resolveAll(
+          Provided,
+          <ProviderToken>Dep,
+          Number(paramIndex),
+          optionalDeps[paramIndex]
+        );
         continue;
       }
 
-      this.decoratorValidator?.validateInjectable(Dep, scope, this.buildStack);
+      if (optionalDeps[paramIndex] && !this.isResolvable(Dep)) {
+        methodDeps[paramIndex] = undefined;
+        continue;
+      }
 
-      const depScope: Scopes = InheritedScopes.includes(scope)
-        ? scope
-        : (depScopes[paramIndex] || Scopes.SHARED);
+      if (Dep instanceof ForwardRef) {
+        this.decoratorValidator?.validateForwardRef(Provided, Dep, Number(paramIndex));
+        methodDeps[paramIndex] = depScope === Scopes.REQUEST
+          ? this.requestScoped(() => <Constructible>Dep.resolve())
+          : this.forwardDependency(Provided, Dep, scope, depScope);
+        continue;
+      }
 
-      methodDeps[paramIndex] = this.build(<Constructible>Dep, depScope);
+      if (typeof Dep !== 'function') {
+        this.decoratorValidator?.validateInjectionToken(Provided, Dep, paramTypes[paramIndex], Number(paramIndex));
+        methodDeps[paramIndex] = this.resolve(Dep);
+        continue;
+      }
+
+      this.decoratorValidator?.validateInjectable(Dep, scope, this.buildStack);
+
+      if (depScope === Scopes.REQUEST) {
+        this.buildSharedDependencies(<Constructible>Dep);
+        methodDeps[paramIndex] = this.requestScoped(() => <Constructible>Dep);
+      } else {
+        methodDeps[paramIndex] = this.build(<Constructible>Dep, depScope);
+      }
     }
     return methodDeps;
   }
 
+  /** request-scoped method dependency, resolved once late instances it depends on are initialized */
+  private requestScoped(resolveClass: () => Constructible): RequestScopedDependency {
+    return new RequestScopedDependency(async (req: YasuiRequest) => {
+      const instance: Instance = this.buildForRequest(resolveClass(), req);
+      await this.lateHooks;
+      return instance;
+    });
+  }
+
+  private async registerInjection(
+    key: ProviderToken,
+    injection: Injection
+  ): Promise<void> {
+    this.graph.addNode(key, Scopes.SHARED);
+    if (typeof key === 'function' && !('multi' in injection && injection.multi)) {
+      this.classProviders.set(key, injection);
+    }
+
+    if ('factory' in injection) {
+      if (injection.deferred) {
+        this.deferred(key, injection.factory);
+      } else {
+        const instance = await injection.factory();
+        this.register(key, instance);
+        this.track(instance);
+      }
+      return;
+    }
+
+    let instance: Instance;
+    if ('useFactory' in injection) {
+      const deps: Instance[] = (injection.inject || []).map((dep, idx) => {
+        this.graph.addEdge(key, dep, { kind: 'provider', position: idx });
+        return this.resolve(dep);
+      });
+      instance = await injection.useFactory(...deps);
+      this.track(instance);
+    } else if ('useClass' in injection) {
+      this.graph.addEdge(key, injection.useClass, { kind: 'provider', position: 'useClass' });
+      instance = this.build(injection.useClass);
+    } else if ('useExisting' in injection) {
+      this.graph.addEdge(key, injection.useExisting, { kind: 'provider', position: 'useExisting' });
+      instance = this.resolve(injection.useExisting);
+    } else {
+      instance = injection.provide;
+    }
+
+    if (injection.multi) {
+      this.registerMulti(key, instance);
+    } else {
+      this.register(key, instance);
+    }
+  }
+
+  /** tokens a custom injection depends on, validated against registered injections */
+  private getInjectionDependencies(injection: Injection): ProviderToken[] {
+    let deps: ProviderToken[] = [];
+    if ('useFactory' in injection) {
+      deps = injection.inject || [];
+    } else if ('useClass' in injection) {
+      return this.getClassDependencies(injection.useClass);
+    } else if ('useExisting' in injection) {
+      deps = [injection.useExisting];
+    }
+
+    deps.forEach((dep: ProviderToken, idx: number) => {
+      if (typeof dep !== 'function') {
+        this.decoratorValidator?.validateInjectionToken(injection.token, dep, undefined, idx);
+      }
+    });
+    return deps;
+  }
+
+  /** constructor and properties dependencies of a class: pre-injected tokens or param types */
+  private getClassDependencies(token: ProviderToken): ProviderToken[] {
+    if (typeof token !== 'function') {
+      return [];
+    }
+    const deps = getMetadata(ReflectMetadata.DESIGN_PARAM_TYPES, token) || [];
+    const preInjectedDeps = getMetadata(ReflectMetadata.PRE_INJECTED_DEPS, token) || {};
+    const propertiesDeps = getMetadata(ReflectMetadata.PROPERTY_INJECTED_DEPS, token.prototype) || {};
+
+    return [
+      ...deps.map((Dep: Function, idx: number) => preInjectedDeps[idx] || <Constructible>Dep),
+      ...Reflect.ownKeys(propertiesDeps).map((propertyKey) => propertiesDeps[propertyKey]),
+    ].filter((Dep: DependencyToken): Dep is ProviderToken => {
+      /** forward references are resolved lazily, they do not need to be registered first */
+      return !!Dep && Dep !== YasuiRequest && !(Dep instanceof ForwardRef);
+    });
+  }
+
   private getToken(
-    name: string,
+    Provided: Function,
     scope?: Scopes
-  ): string | symbol {
+  ): Function | symbol {
     switch (scope) {
       case Scopes.LOCAL:
       case Scopes.DEEP_LOCAL:
-        return Symbol(name);
+        return Symbol(Provided.name);
       case Scopes.SHARED:
       default:
-        return name;
+        return Provided;
     }
   }
 }
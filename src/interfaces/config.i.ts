@@ -1,8 +1,13 @@
 import { TController } from './controller.i.js';
 import { TMiddleware } from './middleware.i.js';
 import { IPipeTransform } from './pipe.i.js';
+import { IExceptionFilter } from './filter.i.js';
+import { IInterceptor } from './interceptor.i.js';
+import { ICanActivate } from './guard.i.js';
+import { ILifecycleHooks } from './hooks.i.js';
 import { ISwaggerConfig } from './swagger.i.js';
-import { Constructible, Injection } from './utils.i.js';
+import { DependencyGraphFormat } from './graph.i.js';
+import { Constructible, Injection, MaybePromise } from './utils.i.js';
 import type { ServerOptions } from 'srvx';
 
 
@@ -22,14 +27,106 @@ export interface YasuiSwaggerConfig extends Omit<ISwaggerConfig, 'openapi' | 'pa
 }
 
 
-/** YasuiJS configuration */
-export interface YasuiConfig {
+/** YasuiJS dependency graph debug route configuration */
+export interface YasuiDependencyGraphConfig {
+  /** Path of the route serving the injector dependency graph
+   *  @default /_debug/dependencies */
+  path?: string;
+  /** Format served when the `format` query param is not provided
+   *  @default json */
+  format?: DependencyGraphFormat;
+}
+
+
+/** YasuiJS API versioning configuration - See `@Version` */
+export interface YasuiVersioningConfig {
+  /** Where the requested version is read from:
+   *  - uri: path prefix (e.g. /v2/users)
+   *  - header: custom request header (e.g. x-api-version: 2)
+   *  - media-type: Accept header (e.g. application/vnd.app.v2+json) */
+  type: 'uri' | 'header' | 'media-type';
+  /** Version of routes without `@Version`, and of requests without version.
+   *  Routes stay version-neutral (match any version) if not provided */
+  defaultVersion?: string;
+  /** Version prefix in URI path or media type
+   *  @default 'v' */
+  prefix?: string;
+  /** Request header name read by header strategy
+   *  @default 'x-api-version' */
+  header?: string;
+}
+
+
+/** YasuiJS routing configuration */
+export interface YasuiRoutingConfig {
+  /** Trailing slash handling: ignored, distinct routes, or 308 redirect to the registered path
+   *  @default 'ignore' */
+  trailingSlash?: 'strict' | 'ignore' | 'redirect';
+  /** Whether static path segments are case sensitive
+   *  @default true */
+  caseSensitive?: boolean;
+  /** Whether duplicate slashes of requests paths are collapsed (redirected in redirect mode)
+   *  @default true */
+  collapseSlashes?: boolean;
+}
+
+/** YasuiJS global prefix configuration */
+export interface YasuiGlobalPrefixConfig {
+  /** Prefix applied to all routes paths (e.g. /api) */
+  prefix: string;
+  /** Routes paths kept unprefixed, including their sub-paths (except root)
+   *  @example ['/', '/health', '/api-docs'] */
+  exclude?: string[];
+}
+
+/** Group of controllers sharing a path prefix, middlewares and pipes */
+export interface YasuiRouteGroup {
+  /** Path prefix of all group controllers */
+  prefix: string;
+  /** Middlewares applied to all group routes, before controllers middlewares */
+  middlewares?: TMiddleware[];
+  /** Pipes applied to all group routes, before controllers pipes */
+  pipes?: Constructible<IPipeTransform>[];
   controllers?: TController[];
+  /** Nested groups, stacking prefix, middlewares and pipes */
+  groups?: YasuiRouteGroup[];
+}
+
+
+/** Fetch handler (e.g. another YasuiJS app) mounted under a path */
+export interface YasuiMount {
+  path: string;
+  /** Receives requests with mount path stripped */
+  fetch: (req: Request) => MaybePromise<Response>;
+}
+
+
+/** YasuiJS configuration
+ *  @template I types of `injections` providers, inferred to check typed `InjectionToken` providers */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface YasuiConfig<I extends unknown[] = any[]> {
+  controllers?: TController[];
+  /** Controllers grouped under a shared prefix, middlewares and pipes */
+  groups?: YasuiRouteGroup[];
   middlewares?: TMiddleware[];
+  /** Fetch handlers mounted under a path, after global middlewares */
+  mounts?: YasuiMount[];
   /** Global pipes applied to all route parameters in sequence */
   globalPipes?: Constructible<IPipeTransform>[];
+  /** Global request lifecycle hooks */
+  hooks?: ILifecycleHooks;
+  /** Global guards protecting all controllers routes, before controllers guards */
+  guards?: Constructible<ICanActivate>[];
+  /** Global interceptors wrapping all controllers routes, before controllers interceptors */
+  interceptors?: Constructible<IInterceptor>[];
+  /** Global exception filters, used when no controller or route filter catches an error */
+  filters?: Constructible<IExceptionFilter>[];
+  /** Routes paths matching and normalization options */
+  routing?: YasuiRoutingConfig;
+  /** Prefix applied to all routes paths, e.g. '/api' or `{ prefix: '/api', exclude: ['/health'] }` */
+  globalPrefix?: string | YasuiGlobalPrefixConfig;
   /** Pre-registered customs injections */
-  injections?: Injection[];
+  injections?: { [K in keyof I]: Injection<I[K]> };
   environment?: string;
   /** The hostname (IP or resolvable host) server listener should bound to.
   *   If not provided, server with listen to all network interfaces by default ! */
@@ -41,8 +138,9 @@ export interface YasuiConfig {
   protocol?: 'http' | 'https';
   /** TLS/SSL configuration for HTTPS. When provided, server will use HTTPS protocol */
   tls?: ServerOptions['tls'];
-  /** Runtime-specific server options (Node.js, Deno, Bun) */
-  runtimeOptions?: Pick<ServerOptions, 'node' | 'bun' | 'deno' | 'serviceWorker'>;
+  /** Runtime-specific server options (Node.js, Deno, Bun),
+   *  `gracefulShutdown` lets srvx handle termination signals in place of YasuiJS */
+  runtimeOptions?: Pick<ServerOptions, 'node' | 'bun' | 'deno' | 'serviceWorker' | 'gracefulShutdown'>;
   /** If true, display more logs and logs all incoming requests
    *  @default false */
   debug?: boolean;
@@ -68,5 +166,10 @@ export interface YasuiConfig {
    *  Only compresses text-based content types (JSON, HTML, CSS, JS, XML). Browsers automatically decompress.
    *  @default false */
   compression?: boolean;
+  /** Serve several versions of the same routes side by side */
+  versioning?: YasuiVersioningConfig;
   swagger?: YasuiSwaggerConfig;
+  /** Serve the dependency graph on a debug route, as JSON, Graphviz DOT or Mermaid (`?format=dot`)
+   *  @default false */
+  dependencyGraph?: boolean | YasuiDependencyGraphConfig;
 }
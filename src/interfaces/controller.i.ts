@@ -1,5 +1,7 @@
 import { Constructible, Instance } from './utils.i.js';
 import { TMiddleware } from './middleware.i.js';
+import { OpenAPIOperation } from './openapi.i.js';
+import { ILifecycleHooks } from './hooks.i.js';
 import { HttpCode, RouteMethods } from '../enums/index.js';
 
 
@@ -9,6 +11,18 @@ export type TController = Constructible<IController>;
 /** Controller instance type */
 export type IController = Instance;
 
+/** Controller options - See `@Controller` */
+export interface IControllerOptions {
+  /** Base path of all controller routes */
+  path: string;
+  /** Host pattern all controller routes are restricted to, with optional params - See `@HostParam`
+   *  @example 'admin.example.com'
+   *  @example ':tenant.example.com' */
+  host?: string;
+  /** Lifecycle hooks of all controller routes, run after global hooks */
+  hooks?: ILifecycleHooks;
+}
+
 
 /** Route metadata for controller methods */
 export interface IControllerRoute {
@@ -21,6 +35,43 @@ export interface IControllerRoute {
   params: IRouteParam[];
 }
 
+/** Registered route information - See `getRoutes()` */
+export interface IRouteInfo {
+  /** HTTP method (uppercase, ALL for routes matching any method) */
+  method: string;
+  /** Full path pattern, including versioning prefix if any */
+  path: string;
+  /** Host pattern the route is restricted to */
+  host?: string;
+  /** API version served by the route */
+  version?: string;
+  /** Controller class name (undefined for built-in routes) */
+  controller?: string;
+  /** Controller method name */
+  methodName?: string;
+  /** Global, controller and route middlewares names, in execution order */
+  middlewares: string[];
+  /** Global, controller and route pipes names, in execution order */
+  pipes: string[];
+  defaultStatus?: HttpCode;
+  /** Swagger operation metadata from decorators */
+  swagger?: OpenAPIOperation;
+}
+
+/** Route matched by a request - See `req.route` and `@Route()` */
+export interface IMatchedRoute {
+  /** Path pattern of the route (e.g. /users/:id) */
+  path: string;
+  /** HTTP method (uppercase, ALL for routes matching any method) */
+  method: string;
+  /** Controller class (undefined for built-in routes) */
+  controller?: Function;
+  /** Controller method name */
+  methodName?: string;
+  /** Swagger operation metadata from decorators */
+  swagger?: OpenAPIOperation;
+}
+
 /** Constructible type for array element validation */
 // eslint-disable-next-line @typescript-eslint/no-wrapper-object-types
 export type ArrayItem = Constructible<Number | Boolean | String>;
@@ -0,0 +1,13 @@
+import { YasuiRequest } from '../web.js';
+import { Instance, MaybePromise } from './utils.i.js';
+
+
+/** Exception filter interface */
+export interface IExceptionFilter extends Instance {
+  /**
+   * @param error - Error thrown in middlewares or route handler, matching `@Catch` error classes
+   * @param req - Current request
+   * @returns Response sent to the client (thrown errors fall back to default error handling)
+   */
+  catch: (error: unknown, req: YasuiRequest) => MaybePromise<Response>;
+}
@@ -0,0 +1,41 @@
+import { Scopes } from '../enums/index.js';
+
+
+/** Class built by the injector, or registered injection token */
+export interface DependencyGraphNode {
+  /** Unique id, suffixed for homonymous classes or tokens (e.g. 'UserService#2') */
+  id: string;
+  name: string;
+  kind: 'class' | 'token';
+  /** Scopes the class has been built with, shared for registered tokens */
+  scopes: Scopes[];
+}
+
+/** Dependency of a class or custom injection on a class or token */
+export interface DependencyGraphEdge {
+  /** Dependent node id */
+  from: string;
+  /** Dependency node id */
+  to: string;
+  /** Injection point: constructor, method or property of a class, or custom injection provider */
+  kind: 'constructor' | 'method' | 'property' | 'provider';
+  /** Parameter index, property key, or `useClass` / `useExisting` for providers */
+  position: number | string;
+  /** Method name of method injections */
+  method?: string;
+  scope?: Scopes;
+  optional?: boolean;
+  /** All contributions of a multi-provider, see `@InjectAll()` */
+  multi?: boolean;
+  /** Lazily resolved, see `forwardRef()` */
+  forward?: boolean;
+}
+
+/** Dependency graph of the classes and tokens resolved by the injector */
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+}
+
+/** Format of the dependency graph served by debug route */
+export type DependencyGraphFormat = 'json' | 'dot' | 'mermaid';
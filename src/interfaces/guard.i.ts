@@ -0,0 +1,12 @@
+import { IExecutionContext } from './interceptor.i.js';
+import { Instance, MaybePromise } from './utils.i.js';
+
+
+/** Guard interface */
+export interface ICanActivate extends Instance {
+  /**
+   * @param context - Route execution context (request, controller, method and custom metadata)
+   * @returns Whether the request can reach the route handler (403 error if false)
+   */
+  canActivate: (context: IExecutionContext) => MaybePromise<boolean>;
+}
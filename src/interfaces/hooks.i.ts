@@ -0,0 +1,30 @@
+import { YasuiRequest } from '../web.js';
+import { MaybePromise } from './utils.i.js';
+
+
+/** Request lifecycle hooks, lighter than middlewares (no `next()` to call) */
+export interface ILifecycleHooks {
+  /** Before routing (after routing for controller hooks), a returned Response is sent right away */
+  onRequest?: OnRequestHook[];
+  /** After pipes, with resolved handler arguments — a returned Response is sent instead of calling the handler */
+  preHandler?: PreHandlerHook[];
+  /** Before compression, a returned Response replaces the one to send */
+  onSend?: OnSendHook[];
+  /** After the response is produced, without delaying it */
+  onResponse?: OnResponseHook[];
+  /** On every error reaching error handling, without altering the error response */
+  onError?: OnErrorHook[];
+}
+
+/** Response data given to `onResponse` hooks */
+export interface IResponseInfo {
+  status: number;
+  /** Request processing duration in milliseconds */
+  duration: number;
+}
+
+export type OnRequestHook = (req: YasuiRequest) => MaybePromise<Response | void>;
+export type PreHandlerHook = (req: YasuiRequest, args: unknown[]) => MaybePromise<Response | void>;
+export type OnSendHook = (req: YasuiRequest, response: Response) => MaybePromise<Response | void>;
+export type OnResponseHook = (req: YasuiRequest, info: IResponseInfo) => MaybePromise<void>;
+export type OnErrorHook = (error: unknown, req: YasuiRequest) => MaybePromise<void>;
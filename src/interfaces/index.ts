@@ -4,6 +4,13 @@ export * from './config.i.js';
 export * from './controller.i.js';
 export * from './middleware.i.js';
 export * from './pipe.i.js';
+export * from './filter.i.js';
+export * from './interceptor.i.js';
+export * from './guard.i.js';
+export * from './hooks.i.js';
+export * from './lifecycle.i.js';
+export * from './graph.i.js';
+export * from './testing.i.js';
 export * from './swagger.i.js';
 export * from './openapi.i.js';
 export * from './utils.i.js';
@@ -0,0 +1,28 @@
+import { YasuiRequest } from '../web.js';
+import { Instance, MaybePromise } from './utils.i.js';
+
+
+/** Execution context of a controller route */
+export interface IExecutionContext {
+  req: YasuiRequest;
+  /** Controller class of the route */
+  controller: Function;
+  /** Controller method name of the route */
+  methodName: string;
+  /** Get custom metadata set with `@SetMetadata` on the route, or else on the controller */
+  getMetadata: <T = unknown>(key: string) => T | undefined;
+}
+
+/** Calls the next interceptor or route handler, resolving its raw return value */
+export type CallHandler = () => Promise<unknown>;
+
+/** Interceptor interface */
+export interface IInterceptor extends Instance {
+  /**
+   * @param context - Route execution context
+   * @param next - Calls the route handler (or next interceptor), resolves a Response if the handler returned one
+   * @returns Raw value converted to the response, as if returned by the route handler —
+   * ignored if the handler returned a Response, which is sent as is
+   */
+  intercept: (context: IExecutionContext, next: CallHandler) => MaybePromise<unknown>;
+}
@@ -0,0 +1,21 @@
+import { MaybePromise } from './utils.i.js';
+
+
+/** Called once the instance is built, in dependency order — awaited before routes go live */
+export interface IOnInit {
+  onInit(): MaybePromise<void>;
+}
+
+/** Called once the application is created (and the server started), in dependency order */
+export interface IOnBootstrap {
+  onBootstrap(): MaybePromise<void>;
+}
+
+/**
+ * Called when the application shuts down, in reverse dependency order —
+ * `Symbol.asyncDispose` or `Symbol.dispose` are called next
+ * @param signal termination signal (e.g. 'SIGTERM') if any
+ */
+export interface IOnShutdown {
+  onShutdown(signal?: string): MaybePromise<void>;
+}
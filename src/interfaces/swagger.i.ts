@@ -48,6 +48,10 @@ export interface ISwaggerRoute extends IControllerRoute {
   controllerPath: string;
   fullPath: string;
   swaggerMetadata?: OpenAPIOperation;
+  /** API versions served by the route (version-neutral if undefined) */
+  versions?: string[];
+  /** Host pattern the route is restricted to */
+  host?: string;
 }
 
 /** Complete Swagger/OpenAPI specification configuration */
@@ -0,0 +1,24 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { YasuiApp } from '../web.js';
+import { YasuiConfig } from './config.i.js';
+import { Injection, ProviderToken } from './utils.i.js';
+
+
+/** Testing app configuration - See `createTestingApp`
+ *  @template P types of `providers`
+ *  @template O types of `overrides` */
+export interface YasuiTestingConfig<P extends unknown[] = any[], O extends unknown[] = any[]>
+  extends Omit<YasuiConfig, 'injections'> {
+  /** Custom injections, as `injections` of app configuration */
+  providers?: { [K in keyof P]: Injection<P[K]> };
+  /** Replace any class or token (providers included) with a value, a class or a factory */
+  overrides?: { [K in keyof O]: Injection<O[K]> };
+}
+
+/** App created for tests, with access to its injected instances */
+export type TestingApp = YasuiApp & {
+  /** Get the instance injected for a class or token, classes are built if not already */
+  get<T>(token: abstract new (...args: never[]) => T): T;
+  get<T>(token: ProviderToken<T>): T;
+};
@@ -1,5 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import { ForwardRef, InjectionToken } from '../utils/injection.js';
+
 /** Utility type for unknown Promise */
 export type MaybePromise<T> = T | Promise<T>;
 
@@ -22,8 +24,26 @@ export type Instance = {
   [index: string | symbol]: any;
 };
 
+/** Token of a custom injection: string, symbol, class (abstract classes included) or typed `InjectionToken` */
+export type ProviderToken<T = any> = string | symbol | Function | InjectionToken<T>;
+
+/** Token of an injected dependency, or lazy class reference from `forwardRef()` */
+export type DependencyToken<T = any> = ProviderToken<T> | ForwardRef<T>;
+
 /** Define a custom injection for YasuiJS configuration - See `@Inject` and `@Injectable`
- *  @param deferred non-blocking, supports only objects/classes (no primitive types) */
+ *  @param deferred non-blocking, supports only objects/classes (no primitive types)
+ *  @param useFactory called with resolved `inject` dependencies, in the same order
+ *  @param useClass class built by the injector with its own dependencies
+ *  @param useExisting alias of another registered token
+ *  @param multi contribute to an array of values under the same token - See `@InjectAll` */
 export type Injection<T = any> =
-  | { token: string; provide: T }
-  | { token: string; factory: () => Promise<T>; deferred?: boolean };
+  | { token: ProviderToken<T>; provide: T; multi?: boolean }
+  | { token: ProviderToken<T>; factory: () => Promise<T>; deferred?: boolean }
+  | {
+    token: ProviderToken<T>;
+    useFactory: (...deps: any[]) => MaybePromise<T>;
+    inject?: ProviderToken[];
+    multi?: boolean;
+  }
+  | { token: ProviderToken<T>; useClass: Constructible<T>; multi?: boolean }
+  | { token: ProviderToken<T>; useExisting: ProviderToken<T>; multi?: boolean };
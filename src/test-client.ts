@@ -0,0 +1,347 @@
+import { FetchHandler } from './web.js';
+
+
+/** Response of a test request, with its parsed body */
+export interface TestResponse<T = unknown> {
+  status: number;
+  headers: Headers;
+  /** Parsed JSON for JSON responses, else text (undefined if empty) */
+  body: T;
+  text: string;
+  response: Response;
+}
+
+type TestAssertion = (res: TestResponse) => void;
+
+
+/**
+ * In-process HTTP client calling `app.fetch` directly (no network) —
+ * Stores cookies from responses and sends them with next requests matching their `Path`,
+ * other attributes (`Domain`, `Secure`, `SameSite`...) are ignored and cookies are keyed by name only
+ */
+export class TestClient {
+  /** <cookie name, value> */
+  public readonly cookies: Map<string, string>;
+  /** <cookie name, path> */
+  private cookiePaths: Map<string, string>;
+
+  constructor(
+    private readonly app: FetchHandler,
+    private readonly baseUrl = 'http://localhost'
+  ) {
+    this.cookies = new Map();
+    this.cookiePaths = new Map();
+  }
+
+  public get<T = unknown>(path: string): TestRequest<T> {
+    return this.request('GET', path);
+  }
+
+  public post<T = unknown>(path: string): TestRequest<T> {
+    return this.request('POST', path);
+  }
+
+  public put<T = unknown>(path: string): TestRequest<T> {
+    return this.request('PUT', path);
+  }
+
+  public patch<T = unknown>(path: string): TestRequest<T> {
+    return this.request('PATCH', path);
+  }
+
+  public delete<T = unknown>(path: string): TestRequest<T> {
+    return this.request('DELETE', path);
+  }
+
+  public head<T = unknown>(path: string): TestRequest<T> {
+    return this.request('HEAD', path);
+  }
+
+  public options<T = unknown>(path: string): TestRequest<T> {
+    return this.request('OPTIONS', path);
+  }
+
+  public request<T = unknown>(method: string, path: string): TestRequest<T> {
+    return new TestRequest<T>(this, method.toUpperCase(), path);
+  }
+
+  /** @internal send request with stored cookies matching its path, and store response cookies */
+  public async fetch(req: Request): Promise<Response> {
+    const { pathname } = new URL(req.url);
+    const cookies: string[] = [...this.cookies]
+      .filter(([name]) => isPathMatch(pathname, this.cookiePaths.get(name) || '/'))
+      .map(([name, value]) => `${name}=${value}`);
+    if (cookies.length && !req.headers.has('cookie')) {
+      req.headers.set('cookie', cookies.join('; '));
+    }
+    const res: Response = await this.app.fetch(req);
+    this.storeCookies(res.headers, pathname);
+    return res;
+  }
+
+  /** @internal */
+  public resolveUrl(path: string): URL {
+    return new URL(path, this.baseUrl);
+  }
+
+
+  private storeCookies(headers: Headers, requestPath: string): void {
+    const setCookie = headers.get('set-cookie');
+    const setCookies: string[] = headers.getSetCookie?.() || (setCookie ? [setCookie] : []);
+
+    for (const cookie of setCookies) {
+      const [pair, ...attributes] = cookie.split(';');
+      const separatorIdx = pair.indexOf('=');
+      if (separatorIdx < 1) {
+        continue;
+      }
+      const name = pair.slice(0, separatorIdx).trim();
+      /** default path is the request path directory */
+      let path: string = requestPath.slice(0, requestPath.lastIndexOf('/')) || '/';
+      let expired = false;
+      for (const attribute of attributes) {
+        const [key, value = ''] = attribute.split('=').map(part => part.trim());
+        switch (key.toLowerCase()) {
+          case 'max-age':
+            expired = expired || Number(value) <= 0;
+            break;
+          case 'expires':
+            expired = expired || Date.parse(value) <= Date.now();
+            break;
+          case 'path':
+            path = value.startsWith('/') ? value : path;
+            break;
+        }
+      }
+
+      if (expired) {
+        this.cookies.delete(name);
+        this.cookiePaths.delete(name);
+      } else {
+        this.cookies.set(name, pair.slice(separatorIdx + 1).trim());
+        this.cookiePaths.set(name, path);
+      }
+    }
+  }
+}
+
+
+/** Fluent test request, sent when awaited - Assertions are checked in declaration order */
+export class TestRequest<T = unknown> implements PromiseLike<TestResponse<T>> {
+  private headers: Headers;
+  private searchParams: URLSearchParams;
+  private body?: globalThis.BodyInit;
+  private formData?: FormData;
+  private assertions: TestAssertion[];
+  /** sent once, on first await */
+  private response?: Promise<TestResponse<T>>;
+
+  constructor(
+    private readonly client: TestClient,
+    private readonly method: string,
+    private readonly path: string
+  ) {
+    this.headers = new Headers();
+    this.searchParams = new URLSearchParams();
+    this.assertions = [];
+  }
+
+
+  /** Set a request header, or several at once */
+  public set(name: string, value: string): this;
+  public set(headers: Record<string, string>): this;
+  public set(nameOrHeaders: string | Record<string, string>, value?: string): this {
+    const headers = typeof nameOrHeaders === 'string'
+      ? { [nameOrHeaders]: value || '' }
+      : nameOrHeaders;
+    for (const [name, headerValue] of Object.entries(headers)) {
+      this.headers.set(name, headerValue);
+    }
+    return this;
+  }
+
+  /** Append query string params */
+  public query(params: Record<string, string | number | boolean>): this {
+    for (const [name, value] of Object.entries(params)) {
+      this.searchParams.append(name, String(value));
+    }
+    return this;
+  }
+
+  /** Set request body: sent as is for strings and Web body types, else as JSON */
+  public send(body: unknown): this {
+    if (typeof body === 'string' || isBodyInit(body)) {
+      this.body = body;
+    } else {
+      this.body = JSON.stringify(body);
+      if (!this.headers.has('content-type')) {
+        this.headers.set('content-type', 'application/json');
+      }
+    }
+    return this;
+  }
+
+  /** Set an url-encoded form body */
+  public form(fields: Record<string, string | number | boolean>): this {
+    const form = new URLSearchParams();
+    for (const [name, value] of Object.entries(fields)) {
+      form.append(name, String(value));
+    }
+    this.body = form;
+    return this;
+  }
+
+  /** Append a multipart form field */
+  public field(name: string, value: string | number | boolean): this {
+    this.getFormData().append(name, String(value));
+    return this;
+  }
+
+  /** Append a multipart file */
+  public attach(
+    name: string,
+    file: Blob | string | Uint8Array,
+    filename = 'file',
+    type?: string
+  ): this {
+    const blob = file instanceof Blob
+      ? file
+      : new Blob([file as globalThis.BlobPart], type ? { type } : undefined);
+    this.getFormData().append(name, blob, filename);
+    return this;
+  }
+
+  /** Assert response status, or a response header value */
+  public expect(status: number): this;
+  public expect(header: string, value: string | RegExp): this;
+  public expect(statusOrHeader: number | string, value?: string | RegExp): this {
+    if (typeof statusOrHeader === 'number') {
+      this.assertions.push((res) => {
+        if (res.status !== statusOrHeader) {
+          this.fail(`expected status ${statusOrHeader}, got ${res.status}`, res);
+        }
+      });
+      return this;
+    }
+    this.assertions.push((res) => {
+      const headerValue = res.headers.get(statusOrHeader);
+      const matches = value instanceof RegExp
+        ? headerValue !== null && value.test(headerValue)
+        : headerValue === value;
+      if (!matches) {
+        this.fail(`expected header '${statusOrHeader}' to match ${value}, got ${headerValue}`, res);
+      }
+    });
+    return this;
+  }
+
+  /** Assert response is JSON, and deeply equals expected value if given */
+  public expectJson<R = T>(expected?: R): TestRequest<R> {
+    this.assertions.push((res) => {
+      if (!res.headers.get('content-type')?.includes('json')) {
+        this.fail(`expected JSON response, got ${res.headers.get('content-type')}`, res);
+      }
+      if (expected !== undefined && !isDeepEqual(res.body, expected)) {
+        this.fail(`expected JSON body ${JSON.stringify(expected)}, got ${res.text}`, res);
+      }
+    });
+    return this as unknown as TestRequest<R>;
+  }
+
+  public then<R1 = TestResponse<T>, R2 = never>(
+    onfulfilled?: ((value: TestResponse<T>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    if (!this.response) {
+      this.response = this.execute();
+    }
+    return this.response.then(onfulfilled, onrejected);
+  }
+
+
+  private async execute(): Promise<TestResponse<T>> {
+    const url: URL = this.client.resolveUrl(this.path);
+    this.searchParams.forEach((value, name) => url.searchParams.append(name, value));
+
+    const body = this.formData || this.body;
+    const res: Response = await this.client.fetch(new Request(url, {
+      method: this.method,
+      headers: this.headers,
+      body,
+      /** required to send streams */
+      ...(body instanceof ReadableStream && { duplex: 'half' }),
+    }));
+
+    const text: string = await res.text();
+    let resBody: unknown = text || undefined;
+    if (text && res.headers.get('content-type')?.includes('json')) {
+      try {
+        resBody = JSON.parse(text);
+      } catch {
+        // keep text body
+      }
+    }
+
+    const testResponse: TestResponse<T> = {
+      status: res.status,
+      headers: res.headers,
+      body: <T>resBody,
+      text,
+      response: res,
+    };
+    for (const assertion of this.assertions) {
+      assertion(testResponse);
+    }
+    return testResponse;
+  }
+
+  private getFormData(): FormData {
+    if (!this.formData) {
+      this.formData = new FormData();
+    }
+    return this.formData;
+  }
+
+  private fail(message: string, res: TestResponse): never {
+    const body: string = res.text.length > 200 ? `${res.text.slice(0, 200)}...` : res.text;
+    throw new Error(`${message} (${this.method} ${this.path})${body ? `\nresponse body: ${body}` : ''}`);
+  }
+}
+
+
+/** Create an in-process HTTP client for an app created with `createApp` or `createTestingApp` */
+export function testClient(
+  app: FetchHandler,
+  baseUrl?: string
+): TestClient {
+  return new TestClient(app, baseUrl);
+}
+
+
+function isBodyInit(body: unknown): body is globalThis.BodyInit {
+  return body instanceof FormData
+    || body instanceof URLSearchParams
+    || body instanceof Blob
+    || body instanceof ArrayBuffer
+    || ArrayBuffer.isView(body)
+    || body instanceof ReadableStream;
+}
+
+/** request path matches cookie path, or is under it */
+function isPathMatch(requestPath: string, cookiePath: string): boolean {
+  return requestPath === cookiePath
+    || (requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'));
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length
+    && keysA.every((key) => isDeepEqual((<Record<string, unknown>>a)[key], (<Record<string, unknown>>b)[key]));
+}
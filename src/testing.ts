@@ -0,0 +1,35 @@
+import { Core } from './core.js';
+import { YasuiApp } from './web.js';
+import { ProviderToken, TestingApp, YasuiTestingConfig } from './interfaces/index.js';
+
+
+/**
+ * Create an app for unit and integration tests, without starting server —
+ * Overrides replace classes or tokens before anything is built, e.g. a service by a mock:
+ * `{ overrides: [{ token: UserService, provide: userServiceMock }] }`
+ */
+export async function createTestingApp<P extends unknown[], O extends unknown[]>(
+  conf: YasuiTestingConfig<P, O> = {}
+): Promise<TestingApp> {
+  const { providers = [], overrides = [], ...config } = conf;
+
+  /** overridden providers are replaced, including all contributions of multi-providers */
+  const overriddenTokens = new Set(overrides.map(({ token }) => token));
+  const core: Core = new Core({
+    ...config,
+    injections: [
+      ...providers.filter(({ token }) => !overriddenTokens.has(token)),
+      ...overrides,
+    ],
+  });
+
+  const app: YasuiApp = await core.createApp();
+  core.decoratorValidator?.outputErrors();
+  core.decoratorValidator = null;
+  await core.bootstrap();
+
+  return {
+    ...app,
+    get: <T>(token: ProviderToken<T>): T => core.get(token),
+  };
+}
@@ -53,6 +53,20 @@ export class AppService {
     return Response.json(errResource, { status: HttpCode.NOT_FOUND });
   }
 
+  /** log and client response for 405 error, listing allowed methods */
+  public handleMethodNotAllowed(
+    req: YasuiRequest,
+    allow: string
+  ): Response {
+    this.logger.error(`Method ${req.method} not allowed on ${req.path}`);
+    const err = new HttpError(HttpCode.METHOD_NOT_ALLOWED, `Cannot ${req.method} ${req.path}`);
+    const errResource = new ErrorResource(err, req);
+    return Response.json(errResource, {
+      status: HttpCode.METHOD_NOT_ALLOWED,
+      headers: { allow },
+    });
+  }
+
   /** pretty logs and client responses for errors */
   public handleErrors(
     err: HttpError | Error,
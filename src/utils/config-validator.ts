@@ -23,5 +23,19 @@ export class ConfigValidator {
     if (config.hostname && typeof config.hostname !== 'string') {
       throw new Error(`Invalid hostname: ${config.hostname}`);
     }
+
+    const trailingSlash = config.routing?.trailingSlash;
+    if (trailingSlash && !['strict', 'ignore', 'redirect'].includes(trailingSlash)) {
+      throw new Error(`Invalid routing trailingSlash: ${trailingSlash}. Must be strict, ignore or redirect.`);
+    }
+
+    if (config.versioning && !['uri', 'header', 'media-type'].includes(config.versioning.type)) {
+      throw new Error(`Invalid versioning type: ${config.versioning.type}. Must be uri, header or media-type.`);
+    }
+
+    const graphFormat = typeof config.dependencyGraph === 'object' ? config.dependencyGraph.format : undefined;
+    if (graphFormat && !['json', 'dot', 'mermaid'].includes(graphFormat)) {
+      throw new Error(`Invalid dependencyGraph format: ${graphFormat}. Must be json, dot or mermaid.`);
+    }
   }
 }
@@ -1,11 +1,16 @@
 import { ReflectMetadata, getMetadata } from './reflect.js';
 import { SwaggerService } from './swagger.service.js';
+import { normalizeRouterPath, parseRoutePath } from './path.js';
+import { ForwardRef, getTokenName } from './injection.js';
 import { LoggerService } from '../utils/index.js';
 import { Scopes } from '../enums/index.js';
+import { YasuiRequest } from '../web.js';
 import {
   Constructible,
   IController,
   IControllerRoute,
+  Injection,
+  ProviderToken,
   YasuiConfig,
 } from '../interfaces/index.js';
 
@@ -16,14 +21,29 @@ interface ValidationError {
   suggestion: string | undefined;
 }
 
+/** Controller route registered in routes table for conflicts detection */
+export interface ValidatedRoute {
+  method: string;
+  path: string;
+  host?: string;
+  versions?: string[];
+  controller: Function;
+  methodName: string;
+}
+
+type RouteConflict = 'duplicate' | 'shadowing' | 'overlap';
+
 
 export class DecoratorValidator {
-  private errors: Record<string, ValidationError[]>;
+  /** errors by class, homonymous classes are kept apart */
+  private errors: Map<Function | string, ValidationError[]>;
   private paramRegex: RegExp;
+  private routesTable: ValidatedRoute[];
 
   constructor(private readonly appConfig: YasuiConfig) {
-    this.errors = {};
+    this.errors = new Map();
     this.paramRegex = /\(([^)]*)\)/;
+    this.routesTable = [];
   }
 
   public outputErrors(): void {
@@ -31,7 +51,7 @@ export class DecoratorValidator {
       return;
     }
     let errorLog: string = '\n🚨 Decorator validation errors:';
-    for (const err of Object.values(this.errors).flat()) {
+    for (const err of [...this.errors.values()].flat()) {
       errorLog += `\n  • ${err.className}: ${err.issue}.`;
       if (err.suggestion) {
         errorLog += `\n    💡 ${err.suggestion}.`;
@@ -41,7 +61,7 @@ export class DecoratorValidator {
   }
 
   public hasError(): boolean {
-    return !!Object.keys(this.errors).length;
+    return this.errors.size > 0;
   }
 
   public validateController(target: Constructible<IController>): void {
@@ -56,17 +76,17 @@ export class DecoratorValidator {
     const routes = getMetadata(ReflectMetadata.ROUTES, target.prototype) || [];
     if (routes.length === 0) {
       this.addError(
-        target.name,
+        target,
         'Controller has no route methods',
-        'Add @Get, @Post, @Put, @Delete, or @Patch methods'
+        'Add @Get, @Post, @Put, @Delete, @Patch, @Head, @Options or @All methods'
       );
     }
 
     routes.forEach((route: IControllerRoute) => {
-      this.validateRouteMethod(target.name, target.prototype, route);
+      this.validateRouteMethod(target, route);
     });
 
-    this.throwError(target.name);
+    this.throwError(target);
   }
 
   // Middleware use() method implementation already ensured by typing
@@ -74,25 +94,33 @@ export class DecoratorValidator {
   public validateInjectable(
     target: Function,
     scope: Scopes,
-    buildStack: Set<string>
+    buildStack: Set<Function>
   ): void {
-    const buildStackArray: string[] = Array.from(buildStack);
-    const callerName: string = buildStackArray[buildStackArray.length - 1];
+    const buildStackArray: Function[] = Array.from(buildStack);
+    /** forward references are built once no class is being built, errors are then reported on the referenced class */
+    const caller: Function = buildStackArray[buildStackArray.length - 1] || target;
+    const callerName: string = caller.name;
+
+    /** class registered as custom injection is not built by the injector */
+    if (this.findInjection(<Constructible>target)) {
+      return;
+    }
 
     if (!this.isConstructible(target)) {
       this.addError(
-        callerName,
+        caller,
         'Injectable must be a class',
         'Use @Injectable on a class declaration'
       );
     }
 
-    const cycle: string = [...buildStackArray, target.name].join(' -> ');
+    /** classes are compared by identity, names are only used for readable messages */
+    const cycle: string = [...buildStackArray, target].map(({ name }) => name).join(' -> ');
 
-    if (buildStackArray.indexOf(target.name) !== -1) {
-      if (scope === Scopes.SHARED || target.name === callerName) {
+    if (buildStack.has(target)) {
+      if (scope === Scopes.SHARED || target === caller) {
         this.addError(
-          callerName,
+          caller,
           `Circular dependency detected: ${cycle}`,
           'Consider refactoring your dependencies or use @Scope(Scopes.LOCAL) for local instances'
         );
@@ -101,55 +129,176 @@ export class DecoratorValidator {
 
     const deps = getMetadata(ReflectMetadata.DESIGN_PARAM_TYPES, target) || [];
     const preInjectedDeps = getMetadata(ReflectMetadata.PRE_INJECTED_DEPS, target) || {};
+    const optionalDeps = getMetadata(ReflectMetadata.OPTIONAL_DEPS, target) || {};
+    const multiDeps = getMetadata(ReflectMetadata.MULTI_DEPS, target) || {};
 
     deps.forEach((Dep, idx) => {
-      if (Dep === undefined || Dep.prototype.toString() === 'function () { [native code] }') {
+      const preInjectedDep = preInjectedDeps[idx];
+
+      /** forward referenced classes are resolved lazily, their param type is undefined with circular imports */
+      if (preInjectedDep instanceof ForwardRef) {
+        if (!optionalDeps[idx]) {
+          this.validateForwardRef(caller, preInjectedDep, idx);
+        }
+
+      } else if (Dep === undefined || Dep.prototype.toString() === 'function () { [native code] }') {
         this.addError(
-          callerName,
+          caller,
           `Dependency at position ${idx} is undefined (${cycle} -> <?>)`,
           'This usually means there is a circular import between files or a missing or bad import statement'
           + '\nCheck your import statements and ensure there is no circular import between files'
         );
 
-      } else if (preInjectedDeps[idx]) {
-        this.validateInjectionToken(callerName, preInjectedDeps[idx], Dep, idx);
-
-      } else if (!getMetadata(ReflectMetadata.INJECTABLE, Dep)) {
+      } else if (preInjectedDep) {
+        /** missing optional dependencies are resolved to undefined */
+        if (!optionalDeps[idx] || this.findInjection(preInjectedDep)) {
+          this.validateInjectionToken(caller, preInjectedDep, Dep, idx, multiDeps[idx]);
+        }
+
+      } else if (
+        !optionalDeps[idx]
+        && Dep !== YasuiRequest
+        && !getMetadata(ReflectMetadata.INJECTABLE, Dep)
+        && !this.findInjection(<Constructible>Dep)
+      ) {
         this.addError(
-          callerName,
+          caller,
           `Dependency at position ${idx} (${callerName} -> ${Dep.name}) is not injectable`,
           'Add @Injectable on class declaration'
         );
       }
     });
 
-    this.throwError(callerName);
+    this.throwError(caller);
   }
 
   public validateInjectionToken(
-    callerName: string,
-    tokenReg: string,
+    caller: ProviderToken,
+    tokenReg: ProviderToken,
     paramType: Function | undefined,
-    paramIndex: number,
+    paramIndex: number | string,
+    multi = false,
   ): void {
-    const injection = this.appConfig.injections?.find(({ token }) => token === tokenReg);
+    const injection = this.findInjection(tokenReg);
+    const owner: Function | string = this.getOwner(caller);
+    const tokenName: string = getTokenName(tokenReg);
+    /** parameter index, or property key for properties injections */
+    const position: string = typeof paramIndex === 'number' ? `parameter ${paramIndex}` : `property ${paramIndex}`;
+
     if (!injection) {
+      /** class tokens are built by the injector when not registered */
+      if (typeof tokenReg === 'function') {
+        if (!getMetadata(ReflectMetadata.INJECTABLE, tokenReg)) {
+          this.addError(
+            owner,
+            `Injection token ${tokenName} at ${position} is neither registered nor injectable`,
+            'Add @Injectable on class declaration or register it in your app config injections'
+          );
+        }
+        return;
+      }
+      const token: string = typeof tokenReg === 'string' ? `'${tokenName}'` : tokenName;
       this.addError(
-        callerName,
-        `Injection token '${tokenReg}' is not registered`,
-        `Register token in your app config: \`{ ..., injections: [..., { token: '${tokenReg}', provide: <any> }] }\``
+        owner,
+        `Injection token ${token} is not registered`,
+        `Register token in your app config: \`{ ..., injections: [..., { token: ${token}, provide: <any> }] }\``
+      );
+    } else if (!!('multi' in injection && injection.multi) !== multi) {
+      this.addError(
+        owner,
+        multi
+          ? `Injection token '${tokenName}' at ${position} is not a multi-provider`
+          : `Injection token '${tokenName}' at ${position} is a multi-provider`,
+        multi
+          ? 'Register its injections with `multi: true`, or inject it with @Inject()'
+          : 'Inject all its contributions as an array with @InjectAll()'
       );
     } else if ('factory' in injection && injection.deferred) {
-      if (paramType?.name !== 'Object') {
+      /** factory providers receive the proxy of deferred injections */
+      if (paramType && paramType.name !== 'Object') {
         this.addError(
-          callerName,
-          `Deferred async injection '${tokenReg}' at parameter ${paramIndex} must be typed as nullable`,
-          `Add a null union type: \`@Inject('${tokenReg}') param: ${paramType?.name} | null\``
+          owner,
+          `Deferred async injection '${tokenName}' at ${position} must be typed as nullable`,
+          `Add a null union type: \`@Inject('${tokenName}') param: ${paramType.name} | null\``
         );
       }
     }
   }
 
+  /** Custom injections depending on each other cannot be resolved in order, none of them is registered */
+  public validateInjectionCycle(cycle: ProviderToken[]): void {
+    this.addError(
+      this.getOwner(cycle[0]),
+      `Circular injection dependency detected: ${cycle.map(getTokenName).join(' -> ')}`,
+      'Remove a dependency of the cycle, or break a dependency between classes with '
+      + '`@Inject(forwardRef(() => OtherService))` to resolve it lazily'
+    );
+  }
+
+  /** Forward referenced class must be defined once injected, and injectable or registered */
+  public validateForwardRef(
+    caller: Function,
+    ref: ForwardRef,
+    paramIndex: number | string
+  ): void {
+    const Dep: Function | undefined = ref.resolve();
+    const position: string = typeof paramIndex === 'number' ? `parameter ${paramIndex}` : `property ${paramIndex}`;
+
+    if (!Dep || !this.isConstructible(Dep)) {
+      this.addError(
+        caller,
+        `forwardRef() at ${position} does not resolve to a class`,
+        'Return the class from the forward reference: `@Inject(forwardRef(() => OtherService))`'
+      );
+    } else if (!getMetadata(ReflectMetadata.INJECTABLE, Dep) && !this.findInjection(Dep)) {
+      this.addError(
+        caller,
+        `Forward referenced ${Dep.name} at ${position} is neither registered nor injectable`,
+        'Add @Injectable on class declaration or register it in your app config injections'
+      );
+    }
+    this.throwError(caller);
+  }
+
+  /** Report conflicts with previously registered routes (does not prevent route registration) */
+  public validateRoute(route: ValidatedRoute): void {
+    const source = `${route.controller.name}.${route.methodName}()`;
+
+    for (const registered of this.routesTable) {
+      if (!this.isSameRouteScope(route, registered)) {
+        continue;
+      }
+      const registeredSource = `${registered.controller.name}.${registered.methodName}()`;
+      const method = route.method.toUpperCase();
+
+      switch (this.getRouteConflict(route.path, registered.path)) {
+        case 'duplicate':
+          this.addError(
+            route.controller,
+            `Route ${method} ${route.path} in ${source} duplicates ${registered.path} in ${registeredSource}`,
+            'Remove one of the routes or change its path, the last registered one overrides the other'
+          );
+          break;
+        case 'shadowing':
+          this.addError(
+            route.controller,
+            `Route ${method} ${route.path} in ${source} is shadowed by ${registered.path} in ${registeredSource}`,
+            'Use the same param names in both routes, or merge them, only one of them can be reached'
+          );
+          break;
+        case 'overlap':
+          this.addError(
+            route.controller,
+            `Route ${method} ${route.path} in ${source} overlaps ${registered.path} in ${registeredSource}`,
+            'Static segments take precedence over params on the same position'
+            + '\nAdd a constraint to the param (e.g. :id<int>) or use distinct paths'
+          );
+          break;
+      }
+    }
+    this.routesTable.push(route);
+  }
+
   public validateSwaggerSchemaName(
     callerName: string,
     name: string
@@ -166,10 +315,10 @@ export class DecoratorValidator {
 
 
   private validateRouteMethod(
-    className: string,
-    prototype: Record<string, Function>,
+    target: Constructible<IController>,
     route: IControllerRoute,
   ): void {
+    const prototype: Record<string, Function> = target.prototype;
     if (!prototype[route.methodName]) {
       return;
     }
@@ -184,15 +333,78 @@ export class DecoratorValidator {
         || route.params.some(param => param.index === index);
       if (!hasDecorator) {
         this.addError(
-          className,
+          target,
           `Parameter '${paramNames[index]}' in ${route.methodName}() needs a decorator`,
-          'Add @Req, @Res, @Next, @Header, @Param, @Query, @Body, @Logger or @Inject decorator'
+          'Add @Req, @Res, @Next, @Header, @Param, @HostParam, @Query, @Body, @Logger or @Inject decorator'
         );
       }
     });
   }
 
 
+  /** routes can only conflict with same method, host and at least one common version */
+  private isSameRouteScope(route: ValidatedRoute, other: ValidatedRoute): boolean {
+    if (route.method !== other.method || route.host !== other.host) {
+      return false;
+    }
+    if (!route.versions || !other.versions) {
+      return !route.versions && !other.versions;
+    }
+    return route.versions.some(version => other.versions!.includes(version));
+  }
+
+  /** compare paths as normalized by router, see `routing` config */
+  private getRouteConflict(path: string, otherPath: string): RouteConflict | null {
+    const routing = this.appConfig.routing || {};
+    const { path: patternPath, constraints } = parseRoutePath(path);
+    const { path: otherPatternPath, constraints: otherConstraints } = parseRoutePath(otherPath);
+    const routePath = normalizeRouterPath(patternPath, routing);
+    const otherRoutePath = normalizeRouterPath(otherPatternPath, routing);
+
+    /** trailing slash is part of the path in strict and redirect modes */
+    const strictTrailingSlash = routing.trailingSlash === 'strict' || routing.trailingSlash === 'redirect';
+    if (strictTrailingSlash && routePath.endsWith('/') !== otherRoutePath.endsWith('/')) {
+      return null;
+    }
+    const segments = routePath.split('/').filter(Boolean);
+    const otherSegments = otherRoutePath.split('/').filter(Boolean);
+
+    let conflict: RouteConflict = 'duplicate';
+
+    for (let i = 0; i < Math.max(segments.length, otherSegments.length); i++) {
+      const segment = segments[i];
+      const otherSegment = otherSegments[i];
+
+      if (segment === undefined || otherSegment === undefined) {
+        return conflict === 'overlap' ? conflict : null;
+      }
+      if (segment.startsWith('**') || otherSegment.startsWith('**')) {
+        return 'overlap';
+      }
+
+      const isParam = segment.startsWith(':');
+      const isOtherParam = otherSegment.startsWith(':');
+
+      if (isParam && isOtherParam) {
+        if (segment !== otherSegment && conflict === 'duplicate') {
+          conflict = 'shadowing';
+        }
+      } else if (isParam || isOtherParam) {
+        /** static segment shadows param only if it satisfies param constraint */
+        const [param, value, paramConstraints] = isParam
+          ? [segment.slice(1), otherSegment, constraints]
+          : [otherSegment.slice(1), segment, otherConstraints];
+        if (paramConstraints[param] && !paramConstraints[param].regex.test(value)) {
+          return null;
+        }
+        conflict = 'overlap';
+      } else if (segment !== otherSegment) {
+        return null;
+      }
+    }
+    return conflict;
+  }
+
   private getParameterNames(func: Function): string[] {
     const funcStr: string = func.toString();
     const match: RegExpMatchArray | null = funcStr.match(this.paramRegex);
@@ -205,16 +417,27 @@ export class DecoratorValidator {
       .filter(name => name && name !== '');
   }
 
-  private addError(className: string, issue: string, suggestion?: string): void {
-    if (!this.errors[className]) {
-      this.errors[className] = [];
+  private findInjection(tokenReg: ProviderToken): Injection | undefined {
+    return this.appConfig.injections?.find(({ token }) => token === tokenReg);
+  }
+
+  /** errors are grouped by class identity, or by token name for other injections */
+  private getOwner(token: ProviderToken): Function | string {
+    return typeof token === 'function' ? token : getTokenName(token);
+  }
+
+  private addError(owner: Function | string, issue: string, suggestion?: string): void {
+    const className: string = typeof owner === 'function' ? owner.name : owner;
+    if (!this.errors.has(owner)) {
+      this.errors.set(owner, []);
     }
-    this.errors[className].push({ className, issue, suggestion });
+    this.errors.get(owner)!.push({ className, issue, suggestion });
   }
 
-  private throwError(className: string): void {
-    if (this.errors[className]?.length) {
-      throw new Error(`${className} has not passed its validation checks`);
+  private throwError(owner: Function | string): void {
+    const errors: ValidationError[] | undefined = this.errors.get(owner);
+    if (errors?.length) {
+      throw new Error(`${errors[0].className} has not passed its validation checks`);
     }
   }
 
@@ -0,0 +1,189 @@
+import { Scopes } from '../enums/index.js';
+import { ForwardRef, getTokenName } from './injection.js';
+import {
+  DependencyGraph,
+  DependencyGraphEdge,
+  DependencyGraphFormat,
+  DependencyGraphNode,
+  DependencyToken,
+  ProviderToken,
+} from '../interfaces/index.js';
+
+
+/** Edge recorded by the injector, between tokens instead of node ids */
+type RecordedEdge = Omit<DependencyGraphEdge, 'from' | 'to' | 'forward'>;
+
+/** Response content type of each dependency graph format */
+export const DEPENDENCY_GRAPH_CONTENT_TYPES: Record<DependencyGraphFormat, string> = {
+  json: 'application/json',
+  dot: 'text/vnd.graphviz',
+  mermaid: 'text/plain',
+};
+
+
+/** Records classes and tokens resolved by the injector, and their dependencies */
+export class DependencyGraphRecorder {
+  /** <token, node> — tokens are compared by identity like in the injector registry */
+  private nodes: Map<ProviderToken, DependencyGraphNode>;
+  /** <edge key, edge> — request-scoped classes dependencies are resolved on each request */
+  private edges: Map<string, DependencyGraphEdge>;
+
+  constructor() {
+    this.nodes = new Map();
+    this.edges = new Map();
+  }
+
+
+  public addNode(token: ProviderToken, scope?: Scopes): DependencyGraphNode {
+    let node = this.nodes.get(token);
+    if (!node) {
+      const name: string = getTokenName(token) || '<anonymous>';
+      node = {
+        id: this.getUniqueId(name),
+        name,
+        kind: typeof token === 'function' ? 'class' : 'token',
+        scopes: [],
+      };
+      this.nodes.set(token, node);
+    }
+    if (scope && !node.scopes.includes(scope)) {
+      node.scopes.push(scope);
+    }
+    return node;
+  }
+
+  public addEdge(
+    from: ProviderToken,
+    to: DependencyToken | undefined,
+    edge: RecordedEdge
+  ): void {
+    const forward: boolean = to instanceof ForwardRef;
+    const dependency = to instanceof ForwardRef ? to.resolve() : to;
+    if (!dependency) {
+      return;
+    }
+    const fromId: string = this.addNode(from).id;
+    const toId: string = this.addNode(dependency).id;
+    const key = `${fromId}:${edge.kind}:${edge.method || ''}:${String(edge.position)}`;
+
+    if (!this.edges.has(key)) {
+      /** scopes only apply to built classes */
+      const scope = typeof dependency === 'function' && !edge.multi ? edge.scope : undefined;
+      this.edges.set(key, {
+        from: fromId,
+        to: toId,
+        kind: edge.kind,
+        position: edge.position,
+        ...(edge.method ? { method: edge.method } : {}),
+        ...(scope ? { scope } : {}),
+        ...(edge.optional ? { optional: true } : {}),
+        ...(edge.multi ? { multi: true } : {}),
+        ...(forward ? { forward: true } : {}),
+      });
+    }
+  }
+
+  public getGraph(): DependencyGraph {
+    return {
+      nodes: [...this.nodes.values()].map(node => ({ ...node, scopes: [...node.scopes] })),
+      edges: [...this.edges.values()].map(edge => ({ ...edge })),
+    };
+  }
+
+
+  private getUniqueId(name: string): string {
+    const ids = new Set([...this.nodes.values()].map(({ id }) => id));
+    let id = name;
+    for (let idx = 2; ids.has(id); idx++) {
+      id = `${name}#${idx}`;
+    }
+    return id;
+  }
+}
+
+
+/** Serialize a dependency graph to Graphviz DOT (e.g. `dot -Tsvg graph.dot -o graph.svg`) */
+export function graphToDot(graph: DependencyGraph): string {
+  const lines: string[] = [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    '  node [shape=box];',
+  ];
+  for (const node of graph.nodes) {
+    const shape: string = node.kind === 'token' ? ', shape=ellipse' : '';
+    lines.push(`  ${quoteDot(node.id)} [label=${quoteDot(getNodeLabel(node, '\n'))}${shape}];`);
+  }
+  for (const edge of graph.edges) {
+    const style: string = edge.forward ? ', style=dotted' : edge.optional ? ', style=dashed' : '';
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)} [label=${quoteDot(getEdgeLabel(edge))}${style}];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/** Serialize a dependency graph to a Mermaid flowchart */
+export function graphToMermaid(graph: DependencyGraph): string {
+  /** mermaid ids must be plain identifiers */
+  const ids = new Map(graph.nodes.map((node: DependencyGraphNode, idx: number) => [node.id, `n${idx}`]));
+  const lines: string[] = ['graph LR'];
+
+  for (const node of graph.nodes) {
+    const label: string = quoteMermaid(getNodeLabel(node, '<br/>'));
+    lines.push(`  ${ids.get(node.id)}${node.kind === 'token' ? `([${label}])` : `[${label}]`}`);
+  }
+  for (const edge of graph.edges) {
+    const arrow: string = edge.forward || edge.optional ? '-.->' : '-->';
+    lines.push(`  ${ids.get(edge.from)} ${arrow}|${quoteMermaid(getEdgeLabel(edge))}| ${ids.get(edge.to)}`);
+  }
+  return lines.join('\n');
+}
+
+/** Serialize a dependency graph to indented JSON */
+export function graphToJson(graph: DependencyGraph): string {
+  return JSON.stringify(graph, null, 2);
+}
+
+/** Serialize a dependency graph to given format */
+export function serializeGraph(graph: DependencyGraph, format: DependencyGraphFormat): string {
+  switch (format) {
+    case 'dot': return graphToDot(graph);
+    case 'mermaid': return graphToMermaid(graph);
+    default: return graphToJson(graph);
+  }
+}
+
+
+function getNodeLabel(node: DependencyGraphNode, separator: string): string {
+  return node.scopes.length ? `${node.name}${separator}(${node.scopes.join(', ')})` : node.name;
+}
+
+function getEdgeLabel(edge: DependencyGraphEdge): string {
+  let label: string;
+  switch (edge.kind) {
+    case 'constructor':
+      label = `constructor #${edge.position}`;
+      break;
+    case 'method':
+      label = `${edge.method}() #${edge.position}`;
+      break;
+    case 'property':
+      label = `property ${String(edge.position)}`;
+      break;
+    default:
+      label = typeof edge.position === 'number' ? `inject #${edge.position}` : String(edge.position);
+  }
+  const flags: string[] = [
+    ...(edge.multi ? ['all'] : []),
+    ...(edge.optional ? ['optional'] : []),
+    ...(edge.forward ? ['forwardRef'] : []),
+  ];
+  return flags.length ? `${label} (${flags.join(', ')})` : label;
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function quoteMermaid(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
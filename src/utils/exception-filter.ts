@@ -0,0 +1,48 @@
+import { ReflectMetadata, getMetadata } from './reflect.js';
+import { IExceptionFilter } from '../interfaces/index.js';
+
+
+/**
+ * Find the filter catching an error from filters scopes (most specific scope first) —
+ * in a scope, the filter catching the closest error class wins, catch-all filters come last
+ */
+export function findExceptionFilter(
+  error: unknown,
+  scopes: IExceptionFilter[][]
+): IExceptionFilter | undefined {
+  for (const filters of scopes) {
+    let bestFilter: IExceptionFilter | undefined;
+    let bestDistance = Infinity;
+
+    for (const filter of filters) {
+      const errorClasses = getMetadata(ReflectMetadata.CATCH, filter.constructor) || [];
+      const distance = errorClasses.length
+        ? Math.min(...errorClasses.map(ErrorClass => getPrototypeDistance(error, ErrorClass.prototype)))
+        : Number.MAX_SAFE_INTEGER;
+
+      if (distance < bestDistance) {
+        bestFilter = filter;
+        bestDistance = distance;
+      }
+    }
+    if (bestFilter) {
+      return bestFilter;
+    }
+  }
+  return undefined;
+}
+
+
+/** number of inheritance levels between error and a class prototype, Infinity if not an instance */
+function getPrototypeDistance(error: unknown, prototype: object): number {
+  let current = error !== null && typeof error === 'object' ? Object.getPrototypeOf(error) : null;
+  let distance = 0;
+  while (current) {
+    if (current === prototype) {
+      return distance;
+    }
+    current = Object.getPrototypeOf(current);
+    distance++;
+  }
+  return Infinity;
+}
@@ -0,0 +1,80 @@
+import { RequestHandler, YasuiRequest } from '../web.js';
+import { ReflectMetadata, getMetadata } from './reflect.js';
+import { HttpError } from './error.resource.js';
+import { HttpCode } from '../enums/index.js';
+import { ICanActivate, IExecutionContext, IInterceptor, JsonValue } from '../interfaces/index.js';
+
+
+/** Create execution context factory of a controller route (custom metadata cached at registration) */
+export function executionContextFactory(
+  controller: Function,
+  methodName: string
+): (req: YasuiRequest) => IExecutionContext {
+  /** route metadata takes precedence over controller metadata */
+  const metadata: Record<string, unknown> = {
+    ...getMetadata(ReflectMetadata.CUSTOM_METADATA, controller.prototype),
+    ...getMetadata(ReflectMetadata.CUSTOM_METADATA, controller.prototype, methodName),
+  };
+
+  return (req: YasuiRequest): IExecutionContext => ({
+    req,
+    controller,
+    methodName,
+    getMetadata: <T>(key: string): T | undefined => <T | undefined>metadata[key],
+  });
+}
+
+/** Wrap a route handler with guards, forbidding the request if any of them does not activate */
+export function applyGuards(
+  handler: RequestHandler,
+  guards: ICanActivate[],
+  createContext: (req: YasuiRequest) => IExecutionContext
+): RequestHandler {
+  if (!guards.length) {
+    return handler;
+  }
+
+  return async (req: YasuiRequest): Promise<Response | JsonValue | void> => {
+    const context = createContext(req);
+    for (const guard of guards) {
+      if (!await guard.canActivate(context)) {
+        throw new HttpError(HttpCode.FORBIDDEN, `Access denied to ${req.method} ${req.path}`);
+      }
+    }
+    return handler(req);
+  };
+}
+
+/**
+ * Wrap a route handler with interceptors, first one being the outermost —
+ * a Response returned by the handler is sent as is, interceptors results only map raw values
+ */
+export function applyInterceptors(
+  handler: RequestHandler,
+  interceptors: IInterceptor[],
+  createContext: (req: YasuiRequest) => IExecutionContext
+): RequestHandler {
+  if (!interceptors.length) {
+    return handler;
+  }
+
+  return async (req: YasuiRequest): Promise<Response | JsonValue | void> => {
+    const context = createContext(req);
+    let handlerResponse: Response | undefined;
+
+    const callHandler = async (): Promise<unknown> => {
+      const result = await handler(req);
+      if (result instanceof Response) {
+        handlerResponse = result;
+      }
+      return result;
+    };
+    const callInterceptor = (index: number): Promise<unknown> => Promise.resolve(
+      index < interceptors.length
+        ? interceptors[index].intercept(context, () => callInterceptor(index + 1))
+        : callHandler()
+    );
+    const result = await callInterceptor(0);
+    return handlerResponse || <Response | JsonValue | void>result;
+  };
+}
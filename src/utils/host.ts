@@ -0,0 +1,42 @@
+import { OpenAPIServer } from '../interfaces/index.js';
+
+
+/**
+ * Compile a host pattern to a case-insensitive regex capturing its params
+ * e.g. ':tenant.example.com' matches 'acme.example.com' with { tenant: 'acme' }
+ */
+export function compileHostPattern(host: string): RegExp {
+  const labels = host.split('.').map((label: string) => {
+    if (label.startsWith(':')) {
+      return `(?<${label.slice(1)}>[^.]+)`;
+    }
+    if (label === '*') {
+      return '[^.]+';
+    }
+    return label.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+  });
+  return new RegExp(`^${labels.join('\\.')}$`, 'i');
+}
+
+/** Returns captured host params, or null if hostname does not match */
+export function matchHost(hostRegex: RegExp, hostname: string): Record<string, string> | null {
+  const match = hostRegex.exec(hostname);
+  return match ? { ...match.groups } : null;
+}
+
+/** Convert a host pattern to an OpenAPI server with its params as variables */
+export function hostToServer(host: string): OpenAPIServer {
+  const variables: OpenAPIServer['variables'] = {
+    protocol: { enum: ['https', 'http'], default: 'https' },
+  };
+  const url = host.split('.').map((label: string) => {
+    if (label.startsWith(':')) {
+      const name = label.slice(1);
+      variables[name] = { default: name, description: `${name} host parameter` };
+      return `{${name}}`;
+    }
+    return label;
+  }).join('.');
+
+  return { url: `{protocol}://${url}`, variables };
+}
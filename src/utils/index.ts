@@ -5,6 +5,14 @@ import { SwaggerService } from './swagger.service.js';
 export * from './logger.service.js';
 export { HttpError } from './error.resource.js';
 export { getEnv, RUNTIME, Runtime, ConfigService } from './runtime.js';
+export { InjectionToken, forwardRef } from './injection.js';
+export {
+  graphToDot,
+  graphToMermaid,
+  graphToJson,
+  serializeGraph,
+  DEPENDENCY_GRAPH_CONTENT_TYPES,
+} from './dependency-graph.js';
 
 /** Returns a reference OpenAPI schema for a given resource */
 export const resolveSchema = SwaggerService.resolveSchema;
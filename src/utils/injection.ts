@@ -0,0 +1,49 @@
+import type { YasuiRequest } from '../web.js';
+import { Instance, ProviderToken } from '../interfaces/index.js';
+
+
+/**
+ * Typed injection token, e.g. `new InjectionToken<DbClient>('db')` —
+ * Registered providers and injected parameters are checked against its type at compile time
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export class InjectionToken<T = any> {
+  /** phantom type, invariant so that a token only accepts providers of its exact type */
+  declare readonly type?: (value: T) => T;
+
+  constructor(public readonly description: string) {}
+
+  public toString(): string {
+    return `InjectionToken(${this.description})`;
+  }
+}
+
+/** Request-scoped method dependency, built for each request by route handlers */
+export class RequestScopedDependency<T extends Instance = Instance> {
+  constructor(public readonly resolve: (req: YasuiRequest) => Promise<T>) {}
+}
+
+/** Lazy reference to a class, see `forwardRef` */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export class ForwardRef<T = any> {
+  constructor(public readonly resolve: () => Function & { prototype: T }) {}
+}
+
+/**
+ * Reference a class not yet defined when decorating, e.g. `@Inject(forwardRef(() => OtherService))` —
+ * Breaks circular dependencies: injected as a proxy building the instance on first use
+ */
+export function forwardRef<T>(resolve: () => Function & { prototype: T }): ForwardRef<T> {
+  return new ForwardRef(resolve);
+}
+
+/** Readable name of an injection token for logs and validation errors */
+export function getTokenName(token: ProviderToken): string {
+  if (typeof token === 'function') {
+    return token.name;
+  }
+  if (typeof token === 'symbol') {
+    return token.description || token.toString();
+  }
+  return token.toString();
+}
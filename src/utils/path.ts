@@ -0,0 +1,163 @@
+import { YasuiGlobalPrefixConfig, YasuiRoutingConfig } from '../interfaces/index.js';
+
+
+/** Join a base path and a sub path with a single slash, without trailing slash */
+export function joinPaths(base: string, path: string): string {
+  const normalizedBase = base.endsWith('/') ? base.slice(0, -1) : base;
+  const normalizedPath = path.startsWith('/') ? path : '/' + path;
+
+  if (normalizedBase === '' && normalizedPath === '/') {
+    return '/';
+  }
+  if (normalizedBase === '') {
+    return normalizedPath;
+  }
+  if (normalizedPath === '/') {
+    return normalizedBase;
+  }
+  return normalizedBase + normalizedPath;
+}
+
+
+/** Named param types usable as route constraints (e.g. /:id<uuid>) */
+const PARAM_TYPES: Record<string, string> = {
+  int: '\\d+',
+  number: '-?\\d+(?:\\.\\d+)?',
+  uuid: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+  alpha: '[a-zA-Z]+',
+  alnum: '[a-zA-Z0-9]+',
+  slug: '[a-z0-9]+(?:-[a-z0-9]+)*',
+};
+
+/** Constraint of a route param, checked at match time */
+export interface RouteParamConstraint {
+  /** Named param type, undefined for custom pattern */
+  type?: string;
+  pattern: string;
+  regex: RegExp;
+}
+
+/** Route path split into router pattern and param constraints */
+export interface ParsedRoutePath {
+  /** Path pattern without constraints, as registered in router */
+  path: string;
+  /** <param name, constraint> */
+  constraints: Record<string, RouteParamConstraint>;
+  /** Names of catch-all params (e.g. /files/**:path) */
+  wildcards: string[];
+}
+
+
+/**
+ * Extract param constraints from a route path
+ * - `/:id(\\d+)` custom pattern (cannot contain slashes)
+ * - `/:id<uuid>` named type: int, number, uuid, alpha, alnum, slug
+ * - `/**:path` named catch-all, `/**` unnamed catch-all bound to `_`
+ */
+export function parseRoutePath(path: string): ParsedRoutePath {
+  const constraints: Record<string, RouteParamConstraint> = {};
+  const wildcards: string[] = [];
+
+  const segments = path.split('/').map((segment: string) => {
+    if (segment.startsWith('**')) {
+      wildcards.push(segment.slice(3) || '_');
+      return segment;
+    }
+    const match = segment.match(/^:(\w+)(?:\((.+)\)|<(\w+)>)$/);
+    if (!match) {
+      return segment;
+    }
+
+    const [, name, pattern, type] = match;
+    if (type && !PARAM_TYPES[type]) {
+      throw new Error(
+        `Unknown type '${type}' for param '${name}' in route ${path} (use ${Object.keys(PARAM_TYPES).join(', ')})`
+      );
+    }
+    const source = type ? PARAM_TYPES[type] : pattern;
+    constraints[name] = { type, pattern: source, regex: new RegExp(`^(?:${source})$`) };
+    return `:${name}`;
+  });
+
+  return { path: segments.join('/'), constraints, wildcards };
+}
+
+/** Check that matched params satisfy their route constraints */
+export function matchConstraints(
+  params: Record<string, string> | undefined,
+  constraints: Record<string, RouteParamConstraint>
+): boolean {
+  for (const name in constraints) {
+    if (!constraints[name].regex.test(params?.[name] ?? '')) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** Convert a route path to an OpenAPI path (e.g. /files/:id/**:path to /files/{id}/{path}) */
+export function toOpenAPIPath(path: string): string {
+  return parseRoutePath(path).path
+    .split('/')
+    .map((segment: string) => {
+      if (segment.startsWith('**')) {
+        return `{${segment.slice(3) || '_'}}`;
+      }
+      return segment.startsWith(':') ? `{${segment.slice(1)}}` : segment;
+    })
+    .join('/');
+}
+
+/** Collapse duplicate slashes and lowercase static segments of a router path, according to routing config */
+export function normalizeRouterPath(path: string, routing: YasuiRoutingConfig = {}): string {
+  const normalizedPath = routing.collapseSlashes === false ? path : collapseSlashes(path);
+  if (routing.caseSensitive !== false) {
+    return normalizedPath;
+  }
+  return normalizedPath
+    .split('/')
+    .map((segment: string) => /^(:|\*)/.test(segment) ? segment : segment.toLowerCase())
+    .join('/');
+}
+
+export function collapseSlashes(path: string): string {
+  return path.replace(/\/{2,}/g, '/');
+}
+
+/** Extract params of a router path from a request path (keeping original case of values) */
+export function extractRouteParams(routerPath: string, path: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const segments = path.split('/');
+  let unnamedCount = 0;
+
+  routerPath.split('/').forEach((segment: string, index: number) => {
+    if (segment.startsWith('**')) {
+      params[segment.slice(3) || '_'] = segments.slice(index).join('/');
+    } else if (segment === '*') {
+      params[`_${unnamedCount++}`] = segments[index];
+    } else if (segment.startsWith(':')) {
+      params[segment.slice(1)] = segments[index];
+    }
+  });
+  return params;
+}
+
+/** Get global prefix to apply on a route path, or empty string if path is excluded */
+export function resolveGlobalPrefix(
+  path: string,
+  globalPrefix?: string | YasuiGlobalPrefixConfig
+): string {
+  if (!globalPrefix) {
+    return '';
+  }
+  const { prefix, exclude = [] }: YasuiGlobalPrefixConfig = typeof globalPrefix === 'string'
+    ? { prefix: globalPrefix }
+    : globalPrefix;
+
+  const isExcluded = exclude.some((excluded: string) => {
+    const excludedPath = joinPaths('', excluded);
+    /** excluded paths also exclude their sub-paths, except root */
+    return path === excludedPath || (excludedPath !== '/' && path.startsWith(excludedPath + '/'));
+  });
+  return isExcluded ? '' : joinPaths('', prefix).replace(/\/+$/, '');
+}
@@ -6,7 +6,11 @@ import {
   IRouteParam,
   ApiPropertyDefinition,
   IPipeTransform,
+  IExceptionFilter,
+  IInterceptor,
+  ICanActivate,
   Constructible,
+  DependencyToken,
 } from '../interfaces/index.js';
 
 
@@ -16,14 +20,23 @@ export enum ReflectMetadata {
   PRE_INJECTED_DEPS = 'PRE_INJECTED_DEPS',
   DEP_SCOPES = 'DEP_SCOPES',
   METHOD_INJECTED_DEPS = 'METHOD_INJECTED_DEPS',
+  PROPERTY_INJECTED_DEPS = 'PROPERTY_INJECTED_DEPS',
+  OPTIONAL_DEPS = 'OPTIONAL_DEPS',
+  MULTI_DEPS = 'MULTI_DEPS',
   RESOLVED_METHOD_DEPS = 'RESOLVED_METHOD_DEPS',
   ROUTES = 'ROUTES',
   PIPES = 'PIPES',
+  FILTERS = 'FILTERS',
+  CATCH = 'CATCH',
+  INTERCEPTORS = 'INTERCEPTORS',
+  GUARDS = 'GUARDS',
+  CUSTOM_METADATA = 'CUSTOM_METADATA',
   HTTP_STATUS = 'HTTP_STATUS',
   PARAMS = 'PARAMS',
   SELF = 'SELF',
   INJECTABLE = 'INJECTABLE',
   USE_LOGGER = 'USE_LOGGER',
+  VERSION = 'VERSION',
   SWAGGER_OPERATION = 'SWG_OPS',
   SWAGGER_SCHEMA_DEFINITION = 'SWG_SCHEMA_DEF',
   SWAGGER_SCHEMA_NAME = 'SWG_SCHEMA_NAME',
@@ -32,18 +45,28 @@ export enum ReflectMetadata {
 export interface ReflectTypes {
   [ReflectMetadata.DESIGN_TYPE]: Function;
   [ReflectMetadata.DESIGN_PARAM_TYPES]: Function[];
-  [ReflectMetadata.PRE_INJECTED_DEPS]: Record<number, string>;
+  [ReflectMetadata.PRE_INJECTED_DEPS]: Record<number, DependencyToken>;
   [ReflectMetadata.DEP_SCOPES]: Record<number, Scopes>;
-  [ReflectMetadata.METHOD_INJECTED_DEPS]: Record<string, Record<number, Function | string>>;
+  [ReflectMetadata.METHOD_INJECTED_DEPS]: Record<string, Record<number, DependencyToken>>;
+  [ReflectMetadata.PROPERTY_INJECTED_DEPS]: Record<string | symbol, DependencyToken>;
+  /** constructor or method parameter indexes, or property keys */
+  [ReflectMetadata.OPTIONAL_DEPS]: Record<number | string | symbol, boolean>;
+  [ReflectMetadata.MULTI_DEPS]: Record<number | string | symbol, boolean>;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   [ReflectMetadata.RESOLVED_METHOD_DEPS]: Record<number, any>;
   [ReflectMetadata.ROUTES]: IControllerRoute[];
   [ReflectMetadata.PIPES]: Constructible<IPipeTransform>[];
+  [ReflectMetadata.FILTERS]: Constructible<IExceptionFilter>[];
+  [ReflectMetadata.CATCH]: Constructible<Error>[];
+  [ReflectMetadata.INTERCEPTORS]: Constructible<IInterceptor>[];
+  [ReflectMetadata.GUARDS]: Constructible<ICanActivate>[];
+  [ReflectMetadata.CUSTOM_METADATA]: Record<string, unknown>;
   [ReflectMetadata.HTTP_STATUS]: HttpCode;
   [ReflectMetadata.PARAMS]: IRouteParam[];
   [ReflectMetadata.SELF]: Instance;
   [ReflectMetadata.INJECTABLE]: boolean;
   [ReflectMetadata.USE_LOGGER]: boolean;
+  [ReflectMetadata.VERSION]: string[];
   [ReflectMetadata.SWAGGER_OPERATION]: OpenAPIOperation;
   [ReflectMetadata.SWAGGER_SCHEMA_DEFINITION]: Record<string, ApiPropertyDefinition>;
   [ReflectMetadata.SWAGGER_SCHEMA_NAME]: string;
@@ -3,6 +3,7 @@ import { ReflectMetadata, getMetadata } from './reflect.js';
 import { RouteRequestParamTypes } from '../enums/index.js';
 import { HttpError } from './error.resource.js';
 import { HttpCode } from '../enums/index.js';
+import { RequestScopedDependency } from './injection.js';
 import {
   IRouteParam,
   IPipeTransform,
@@ -11,6 +12,7 @@ import {
   JsonValue,
   EnumLike,
   EnumValues,
+  PreHandlerHook,
 } from '../interfaces/index.js';
 
 
@@ -23,6 +25,7 @@ export function routeHandler(
   isMiddleware?: boolean,
   strictValidation?: boolean,
   maxBodySize?: number,
+  preHandlers: PreHandlerHook[] = [],
 ): RequestHandler {
   const routeFunction: Function = descriptor.value;
 
@@ -123,10 +126,19 @@ export function routeHandler(
       args[param.index] = value;
     }
 
-    // Bind injected dependencies (@Inject)
+    // Bind injected dependencies (@Inject), building request-scoped ones for this request
     for (const indexStr in methodDeps) {
       const index = parseInt(indexStr);
-      args[index] = methodDeps[index];
+      const dep = methodDeps[index];
+      args[index] = dep instanceof RequestScopedDependency ? await dep.resolve(req) : dep;
+    }
+
+    // Run preHandler hooks, which may answer instead of the handler
+    for (const preHandler of preHandlers) {
+      const response = await preHandler(req, args);
+      if (response instanceof Response) {
+        return response;
+      }
     }
 
     const result = await routeFunction.apply(self, args);
@@ -144,6 +156,7 @@ function shouldCastParam(path: string[]): boolean {
   }
   return (
     path[1] === 'params' ||
+    path[1] === 'hostParams' ||
     path[1] === 'query' ||
     path[1] === 'headers'
   );
@@ -4,7 +4,11 @@
 declare const Deno: {
   version?: { deno?: string };
   env: { get(key: string): string | undefined };
+  pid: number;
   cwd(): string;
+  addSignalListener(signal: string, listener: () => void): void;
+  removeSignalListener(signal: string, listener: () => void): void;
+  kill(pid: number, signal: string): void;
 };
 
 declare const Bun: {
@@ -14,12 +18,25 @@ declare const Bun: {
 declare const process: {
   versions?: { node?: string };
   env: Record<string, string | undefined>;
+  pid: number;
   cwd(): string;
+  on(event: string, listener: () => void): void;
+  off(event: string, listener: () => void): void;
+  listenerCount(event: string): number;
+  kill(pid: number, signal: string): void;
 };
 
 /** Detected runtime type */
 export type Runtime = 'node' | 'deno' | 'bun' | 'unknown';
 
+/** Cross-runtime process signals listening */
+type SignalListeners = {
+  add(signal: string, listener: () => void): void;
+  remove(signal: string, listener: () => void): void;
+  /** raise signal again, for its default handling */
+  raise(signal: string): void;
+};
+
 
 /** Detect current runtime environment */
 export function detectRuntime(): Runtime {
@@ -78,5 +95,55 @@ export function getEnv(name: string, fallback = ''): string {
   }
 }
 
+/**
+ * Handle the first SIGINT or SIGTERM signal, e.g. for graceful shutdown —
+ * Following signals get their default handling, exiting right away.
+ * Once handled, the signal is raised again to exit, unless other listeners handle it (Node.js and Bun)
+ */
+export function onTerminationSignal(handler: (signal: string) => Promise<void>): void {
+  const signalListeners: SignalListeners | undefined = getSignalListeners();
+  if (!signalListeners) {
+    return;
+  }
+  const listeners: Record<string, () => void> = {};
+  for (const signal of ['SIGINT', 'SIGTERM']) {
+    const listener = (): void => {
+      Object.entries(listeners).forEach(([other, otherListener]) => signalListeners.remove(other, otherListener));
+      void handler(signal).finally(() => signalListeners.raise(signal));
+    };
+    try {
+      signalListeners.add(signal, listener);
+      listeners[signal] = listener;
+    } catch {
+      // signal not supported on this platform (e.g. SIGTERM on Windows with Deno)
+    }
+  }
+}
+
+/** Signals listening of current runtime, undefined for runtimes without process signals */
+function getSignalListeners(): SignalListeners | undefined {
+  switch (RUNTIME) {
+    case 'deno':
+      return {
+        add: (signal, listener): void => Deno.addSignalListener(signal, listener),
+        remove: (signal, listener): void => Deno.removeSignalListener(signal, listener),
+        raise: (signal): void => Deno.kill(Deno.pid, signal),
+      };
+    case 'node':
+    case 'bun':
+      return {
+        add: (signal, listener): void => void process.on(signal, listener),
+        remove: (signal, listener): void => void process.off(signal, listener),
+        raise: (signal): void => {
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        },
+      };
+    default:
+      return undefined;
+  }
+}
+
 /** @deprecated use `getEnv` instead */
 export const ConfigService = { get: getEnv };
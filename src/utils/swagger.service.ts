@@ -1,8 +1,11 @@
 import { defineMetadata, getMetadata } from './reflect.js';
 import { ERROR_RESOURCE_SCHEMA_NAME, extractDecoratorUsage, mapTypeToSchema } from './swagger.js';
 import { DecoratorValidator } from './decorator-validator.js';
+import { getRouteVersions, resolveVersionedRoutes } from './versioning.js';
+import { hostToServer } from './host.js';
+import { RouteParamConstraint, joinPaths, parseRoutePath, resolveGlobalPrefix, toOpenAPIPath } from './path.js';
 import { ErrorResourceSchema } from './error.resource.js';
-import { HttpCode, HttpCodeMap } from '../enums/index.js';
+import { HttpCode, HttpCodeMap, RouteMethods } from '../enums/index.js';
 import { ReflectMetadata } from '../utils/reflect.js';
 import {
   ApiPropertyDefinition,
@@ -18,18 +21,28 @@ import {
   OpenAPIParamater,
   OpenAPIResponses,
   OpenAPISchema,
+  OpenAPIServer,
+  YasuiConfig,
   YasuiSwaggerConfig,
 } from '../interfaces/index.js';
 
 
 export class SwaggerService {
   public static schemas: Map<string, OpenAPISchema & { className?: string }> = new Map();
+  private static allMethods: RouteMethods[] = [
+    RouteMethods.GET,
+    RouteMethods.POST,
+    RouteMethods.PUT,
+    RouteMethods.DELETE,
+    RouteMethods.PATCH,
+  ];
   /** <Class name, name> */
   private static declaredSchemas: Record<string, string> = {};
   private routesRegistry: ISwaggerRoute[];
 
   constructor(
     private readonly decoratorValidator: DecoratorValidator | null,
+    private readonly appConfig: YasuiConfig,
   ) {
     this.routesRegistry = [];
   }
@@ -117,7 +130,8 @@ export class SwaggerService {
 
   public registerControllerRoutes(
     ControllerClass: TController,
-    controllerPath: string
+    controllerPath: string,
+    host?: string
   ): void {
     const routes = getMetadata(ReflectMetadata.ROUTES, ControllerClass.prototype) || [];
 
@@ -134,14 +148,24 @@ export class SwaggerService {
         controllerPath,
         fullPath: this.normalizePath(controllerPath + route.path),
         swaggerMetadata,
+        versions: getRouteVersions(ControllerClass.prototype, route.methodName, this.appConfig.versioning),
+        host,
       };
       this.routesRegistry.push(swaggerRoute);
     }
   }
 
+  /** Get all API versions declared by registered routes */
+  public getVersions(): string[] {
+    const versions = new Set(this.routesRegistry.flatMap(route => route.versions || []));
+    return Array.from(versions).sort();
+  }
+
+  /** Generate OpenAPI specification, restricted to a given API version if provided */
   public getSwaggerConfig(
     config?: Partial<YasuiSwaggerConfig>,
-    hasApiKey: boolean = false
+    hasApiKey: boolean = false,
+    version?: string
   ): ISwaggerConfig {
     const fullConfig: ISwaggerConfig = {
       openapi: '3.0.0',
@@ -174,18 +198,64 @@ export class SwaggerService {
       })
     };
 
+    if (version) {
+      fullConfig.info.version = version;
+    }
+
     for (const route of this.routesRegistry) {
-      if (!fullConfig.paths[route.fullPath]) {
-        fullConfig.paths[route.fullPath] = {};
+      /** routes matching any method are documented on each standard verb */
+      const methods: RouteMethods[] = route.method === RouteMethods.ALL
+        ? SwaggerService.allMethods
+        : [route.method];
+
+      const versionedRoutes = resolveVersionedRoutes(route.fullPath, route.versions, this.appConfig.versioning)
+        .filter(r => !r.fallback && (!version || !r.version || r.version === version));
+      const globalPrefix = resolveGlobalPrefix(route.fullPath, this.appConfig.globalPrefix);
+
+      for (const versionedRoute of versionedRoutes) {
+        const path = toOpenAPIPath(joinPaths(globalPrefix, versionedRoute.path));
+        if (!fullConfig.paths[path]) {
+          fullConfig.paths[path] = {};
+        }
+        for (const method of methods) {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const pathItem = fullConfig.paths[path] as any;
+          const operation: OpenAPIOperation = this.buildOperation({ ...route, method });
+          const existing: OpenAPIOperation | undefined = pathItem[method];
+
+          /** same route on several hosts is documented once, served on all their servers */
+          pathItem[method] = existing && (existing.servers || operation.servers)
+            ? this.mergeHostOperations(existing, operation, fullConfig.servers)
+            : operation;
+        }
       }
-      const operation: OpenAPIOperation = this.buildOperation(route);
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (fullConfig.paths[route.fullPath] as any)[route.method] = operation;
     }
 
     return fullConfig;
   }
 
+  /** Merge operations of a route restricted to different hosts, unrestricted ones use document servers */
+  private mergeHostOperations(
+    existing: OpenAPIOperation,
+    operation: OpenAPIOperation,
+    defaultServers: OpenAPIServer[] = [{ url: '/' }]
+  ): OpenAPIOperation {
+    const servers = [...(existing.servers || defaultServers), ...(operation.servers || defaultServers)];
+    const parameters = [...(existing.parameters || []), ...(operation.parameters || [])];
+    const merged: OpenAPIOperation = {
+      ...existing,
+      tags: [...new Set([...(existing.tags || []), ...(operation.tags || [])])],
+      responses: { ...operation.responses, ...existing.responses },
+      servers: servers.filter((server, idx) => servers.findIndex(({ url }) => url === server.url) === idx),
+    };
+    if (parameters.length) {
+      merged.parameters = parameters.filter((param, idx) =>
+        parameters.findIndex(({ name, in: location }) => name === param.name && location === param.in) === idx
+      );
+    }
+    return merged;
+  }
+
   private normalizePath(path: string): string {
     return path.replace(/\/+/g, '/').replace(/\/$/, '') || '/';
   }
@@ -200,6 +270,11 @@ export class SwaggerService {
       responses: this.generateResponses(route, swagger?.responses)
     };
 
+    /** host-restricted routes are only served on matching servers */
+    if (route.host) {
+      operation.servers = [hostToServer(route.host)];
+    }
+
     const parameters: OpenAPIParamater[] | undefined = this.generateParameters(route);
     if (parameters && parameters.length > 0) {
       operation.parameters = parameters;
@@ -234,20 +309,21 @@ export class SwaggerService {
     const metadataParams = route.params // from Express decorators metadata
       .map(this.parseRouteParam.bind(this))
       .filter(p => p !== null);
-    const pathParams = this.extractPathParameters(route.path); // from route path
+    const pathParams = this.extractPathParameters(route.fullPath); // from route path
     const describedParams = route.swaggerMetadata?.parameters || []; // from Swagger decorators
 
     // priority: Swagger decorators > Express decorators metadata > Path (auto)
     const paramMap = new Map<string, OpenAPIParamater>();
 
-    pathParams.forEach(name => {
-      paramMap.set(`${name}-path`, {
-        name, in: 'path', required: true,
-        schema: { type: 'string' }, description: `${name} parameter`
-      });
+    pathParams.forEach(param => {
+      paramMap.set(`${param.name}-path`, param);
     });
     metadataParams.forEach(param => {
-      paramMap.set(`${param.name}-${param.in}`, param);
+      /** keep schema and description inferred from route path */
+      const pathParam = paramMap.get(`${param.name}-${param.in}`);
+      paramMap.set(`${param.name}-${param.in}`, pathParam
+        ? { ...param, schema: pathParam.schema, description: pathParam.description }
+        : param);
     });
     describedParams.forEach(param => {
       paramMap.set(`${param.name}-${param.in}`, param);
@@ -257,9 +333,32 @@ export class SwaggerService {
     return result.length > 0 ? result : undefined;
   }
 
-  private extractPathParameters(path: string): string[] {
-    const matches = path.match(/:(\w+)/g);
-    return matches ? matches.map(match => match.substring(1)) : [];
+  private extractPathParameters(path: string): OpenAPIParamater[] {
+    const { path: routePath, constraints, wildcards } = parseRoutePath(path);
+    const names = (routePath.match(/(?<=\/):(\w+)/g) || []).map(match => match.substring(1));
+
+    return [
+      ...names.map((name: string): OpenAPIParamater => ({
+        name, in: 'path', required: true,
+        schema: this.getConstraintSchema(constraints[name]), description: `${name} parameter`
+      })),
+      ...wildcards.map((name: string): OpenAPIParamater => ({
+        name, in: 'path', required: true,
+        schema: { type: 'string' }, description: `${name} catch-all parameter (may contain slashes)`
+      })),
+    ];
+  }
+
+  private getConstraintSchema(constraint?: RouteParamConstraint): OpenAPISchema {
+    if (!constraint) {
+      return { type: 'string' };
+    }
+    switch (constraint.type) {
+      case 'int': return { type: 'integer' };
+      case 'number': return { type: 'number' };
+      case 'uuid': return { type: 'string', format: 'uuid' };
+      default: return { type: 'string', pattern: `^(?:${constraint.pattern})$` };
+    }
   }
 
   private parseRouteParam(param: IRouteParam): OpenAPIParamater | null {
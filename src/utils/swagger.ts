@@ -80,7 +80,9 @@ export function setupSwaggerUI(
   swaggerConfig: ISwaggerConfig,
   swaggerPath: string,
   logger: LoggerService,
-  cdnUrl?: string
+  cdnUrl?: string,
+  versionedConfigs: Record<string, ISwaggerConfig> = {},
+  basePath = ''
 ): void {
   // Normalize swagger path
   if (!swaggerPath.startsWith('/')) {
@@ -91,25 +93,47 @@ export function setupSwaggerUI(
   const swaggerJsonPath = `${swaggerPath}/swagger.json`;
   addRoute(swaggerJsonPath, 'GET', () => Response.json(swaggerConfig), []);
 
+  // Serve one swagger.json per API version
+  const versionedJsonPaths: Record<string, string> = {};
+  for (const [version, versionConfig] of Object.entries(versionedConfigs)) {
+    versionedJsonPaths[version] = `${swaggerPath}/${version}/swagger.json`;
+    addRoute(versionedJsonPaths[version], 'GET', () => Response.json(versionConfig), []);
+  }
+
   // Generate Swagger UI HTML with CDN assets
-  const swaggerHtml = generateSwaggerHTML(swaggerJsonPath, swaggerConfig, cdnUrl);
+  // Global prefix is applied on registration, UI must fetch the prefixed paths
+  const publicJsonPaths: Record<string, string> = {};
+  for (const [version, jsonPath] of Object.entries(versionedJsonPaths)) {
+    publicJsonPaths[version] = basePath + jsonPath;
+  }
+  const swaggerHtml = generateSwaggerHTML(basePath + swaggerJsonPath, swaggerConfig, cdnUrl, publicJsonPaths);
   addRoute(swaggerPath, 'GET', () =>
     new Response(swaggerHtml, {
       headers: { 'content-type': 'text/html' }
     }), []);
 
-  logger.success(`${kleur.italic(`${swaggerPath}`)} swagger documentation loaded`);
+  logger.success(`${kleur.italic(`${basePath + swaggerPath}`)} swagger documentation loaded`);
 }
 
 /** Generate the Swagger UI HTML page with CDN assets */
 function generateSwaggerHTML(
   swaggerJsonPath: string,
   swaggerConfig: ISwaggerConfig,
-  cdnUrl?: string
+  cdnUrl?: string,
+  versionedJsonPaths: Record<string, string> = {}
 ): string {
   // Use custom CDN or default to jsDelivr (reliable and fast)
   const CDN_BASE = cdnUrl || 'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5';
 
+  // Single definition, or definitions selector including each API version
+  const urls = [
+    { url: swaggerJsonPath, name: 'all versions' },
+    ...Object.entries(versionedJsonPaths).map(([version, url]) => ({ url, name: version })),
+  ];
+  const source = urls.length > 1
+    ? `urls: ${JSON.stringify(urls)},`
+    : `url: "${swaggerJsonPath}",`;
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -131,7 +155,7 @@ function generateSwaggerHTML(
   <script>
     window.onload = function() {
       window.ui = SwaggerUIBundle({
-        url: "${swaggerJsonPath}",
+        ${source}
         dom_id: '#swagger-ui',
         deepLinking: true,
         presets: [
@@ -0,0 +1,92 @@
+import { YasuiRequest } from '../web.js';
+import { ReflectMetadata, getMetadata } from './reflect.js';
+import { joinPaths } from './path.js';
+import { YasuiVersioningConfig } from '../interfaces/index.js';
+
+
+/** Path and version under which a route is registered */
+export interface VersionedRoute {
+  path: string;
+  version?: string;
+  /** Unprefixed path serving the default version (uri strategy) */
+  fallback?: boolean;
+}
+
+/** <prefix, media type version matcher> */
+const mediaTypeRegexes: Map<string, RegExp> = new Map();
+
+
+/** Get versions of a controller route from method or controller `@Version`, else default version */
+export function getRouteVersions(
+  prototype: object,
+  methodName: string,
+  config?: YasuiVersioningConfig
+): string[] | undefined {
+  if (!config) {
+    return undefined;
+  }
+  const versions = getMetadata(ReflectMetadata.VERSION, prototype, methodName)
+    || getMetadata(ReflectMetadata.VERSION, prototype);
+
+  if (versions?.length) {
+    return versions;
+  }
+  return config.defaultVersion ? [config.defaultVersion] : undefined;
+}
+
+/** Resolve paths and versions to register a route under, according to versioning strategy */
+export function resolveVersionedRoutes(
+  path: string,
+  versions?: string[],
+  config?: YasuiVersioningConfig
+): VersionedRoute[] {
+  if (!config || !versions?.length) {
+    return [{ path }];
+  }
+  if (config.type !== 'uri') {
+    return versions.map(version => ({ path, version }));
+  }
+
+  const prefix = config.prefix ?? 'v';
+  const routes: VersionedRoute[] = versions.map(version => ({
+    path: joinPaths(`/${prefix}${version}`, path),
+    version,
+  }));
+
+  /** requests without version prefix fall back to the default version */
+  if (config.defaultVersion && versions.includes(config.defaultVersion)) {
+    routes.push({ path, version: config.defaultVersion, fallback: true });
+  }
+  return routes;
+}
+
+/** Extract requested version from header or Accept media type, else default version (not used by uri strategy) */
+export function extractVersion(
+  req: YasuiRequest,
+  config?: YasuiVersioningConfig
+): string | undefined {
+  if (!config || config.type === 'uri') {
+    return undefined;
+  }
+
+  let version: string | null | undefined;
+  if (config.type === 'header') {
+    version = req.headers.get(config.header || 'x-api-version');
+  } else {
+    const accept = req.headers.get('accept');
+    version = accept ? getMediaTypeRegex(config.prefix ?? 'v').exec(accept)?.[1] : undefined;
+  }
+  return version?.trim() || config.defaultVersion;
+}
+
+
+/** match version in vendor media types (e.g. application/vnd.app.v2+json) */
+function getMediaTypeRegex(prefix: string): RegExp {
+  let regex = mediaTypeRegexes.get(prefix);
+  if (!regex) {
+    const escapedPrefix = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    regex = new RegExp(`vnd\\.[^,;]*?\\.${escapedPrefix}([\\w.-]+?)\\+`, 'i');
+    mediaTypeRegexes.set(prefix, regex);
+  }
+  return regex;
+}
@@ -1,6 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { MaybePromise, JsonValue } from './interfaces/utils.i.js';
+import { IMatchedRoute, IRouteInfo } from './interfaces/controller.i.js';
+import { DependencyGraph } from './interfaces/graph.i.js';
 
 
 /**
@@ -11,12 +13,18 @@ export class YasuiRequest extends Request {
   /** Route parameters extracted from URL path (e.g., /users/:id) */
   params: Record<string, string> = {};
 
+  /** Host parameters extracted from Host header (e.g. :tenant.example.com) */
+  hostParams: Record<string, string> = {};
+
   /** @deprecated Use `@Logger()` to access Request logger */
   logger?: never;
 
   /** Source controller or middleware name for debugging */
   source?: string;
 
+  /** Route matched by the request (undefined if not found) */
+  route?: IMatchedRoute;
+
   /** Parsed body cache (use instead of body.getReader()) */
   parsedBody?: any;
 
@@ -58,9 +66,13 @@ export class YasuiRequest extends Request {
     return this.parsedUrl.pathname;
   }
 
-  /** Get hostname from the Host header (Express-compatible property) */
+  /** Get hostname from the Host header, else from URL (Express-compatible property) */
   get hostname(): string {
-    const host = this.headers.get('host') || '';
+    const host = this.headers.get('host');
+    if (!host) {
+      // in-process requests (e.g. tests) carry no Host header
+      return this.parsedUrl.hostname;
+    }
     // Remove port if present
     return host.split(':')[0];
   }
@@ -163,3 +175,13 @@ export type RequestHandler = (
 export type FetchHandler = {
   fetch: (req: globalThis.Request) => MaybePromise<Response>;
 };
+
+/** YasuiJS app created by `createApp()`, fetch handler with routes and dependencies introspection, and shutdown */
+export interface YasuiApp extends FetchHandler {
+  /** List all registered routes */
+  getRoutes: () => IRouteInfo[];
+  /** Classes and tokens resolved by the injector, with their dependencies */
+  getDependencyGraph: () => DependencyGraph;
+  /** Run injectables shutdown hooks, in reverse dependency order */
+  shutdown: (signal?: string) => Promise<void>;
+}
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Controller,
+  DEPENDENCY_GRAPH_CONTENT_TYPES,
+  DependencyGraph,
+  Get,
+  Inject,
+  Injectable,
+  InjectionToken,
+  Optional,
+  Scope,
+  Scopes,
+  createTestingApp,
+  graphToDot,
+  graphToMermaid,
+  serializeGraph,
+} from '../src/index.js';
+
+
+const DATABASE_URL = new InjectionToken<string>('database url');
+
+@Injectable()
+class Database {
+  constructor(@Inject(DATABASE_URL) public readonly url: string) {}
+}
+
+@Injectable()
+class UsersService {
+  @Optional() @Inject('CACHE') public cache?: Map<string, unknown>;
+
+  constructor(public readonly db: Database) {}
+}
+
+@Controller('/users')
+class UsersController {
+  constructor(private usersService: UsersService) {}
+
+  @Get('/')
+  public list(@Inject() @Scope(Scopes.LOCAL) db: Database): boolean {
+    return db !== this.usersService.db;
+  }
+}
+
+const graph: DependencyGraph = {
+  nodes: [
+    { id: 'UsersService', name: 'UsersService', kind: 'class', scopes: [Scopes.SHARED] },
+    { id: 'database url', name: 'database "url"', kind: 'token', scopes: [] },
+  ],
+  edges: [{ from: 'UsersService', to: 'database url', kind: 'constructor', position: 0, optional: true }],
+};
+
+function createApp(): ReturnType<typeof createTestingApp> {
+  return createTestingApp({
+    controllers: [UsersController],
+    providers: [{ token: DATABASE_URL, provide: 'db://local' }],
+    dependencyGraph: { path: '/_graph', format: 'mermaid' },
+  });
+}
+
+
+describe('dependency graph', () => {
+  it('records classes and tokens with their scopes and dependencies', async () => {
+    const app = await createApp();
+    const { nodes, edges } = app.getDependencyGraph();
+
+    assert.deepEqual(nodes.find(({ name }) => name === 'Database')?.scopes, [Scopes.SHARED, Scopes.LOCAL]);
+    assert.equal(nodes.find(({ name }) => name === 'InjectionToken(database url)')?.kind, 'token');
+    assert.deepEqual(edges.filter(({ to }) => to === 'Database'), [
+      { from: 'UsersService', to: 'Database', kind: 'constructor', position: 0, scope: Scopes.SHARED },
+      { from: 'UsersController', to: 'Database', kind: 'method', method: 'list', position: 0, scope: Scopes.LOCAL },
+    ]);
+    assert.deepEqual(edges.find(({ kind }) => kind === 'property'), {
+      from: 'UsersService',
+      to: 'CACHE',
+      kind: 'property',
+      position: 'cache',
+      optional: true,
+    });
+  });
+
+  it('serializes graphs to DOT, Mermaid and JSON', () => {
+    assert.equal(graphToDot(graph), [
+      'digraph dependencies {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  "UsersService" [label="UsersService\\n(shared)"];',
+      '  "database url" [label="database \\"url\\"", shape=ellipse];',
+      '  "UsersService" -> "database url" [label="constructor #0 (optional)", style=dashed];',
+      '}',
+    ].join('\n'));
+    assert.equal(graphToMermaid(graph), [
+      'graph LR',
+      '  n0["UsersService<br/>(shared)"]',
+      '  n1(["database #quot;url#quot;"])',
+      '  n0 -.->|"constructor #0 (optional)"| n1',
+    ].join('\n'));
+    assert.deepEqual(JSON.parse(serializeGraph(graph, 'json')), graph);
+    assert.equal(serializeGraph(graph, 'dot'), graphToDot(graph));
+  });
+
+  it('serves graph on debug route', async () => {
+    const app = await createApp();
+
+    const mermaid = await app.fetch(new Request('http://localhost/_graph'));
+    assert.equal(mermaid.headers.get('content-type'), DEPENDENCY_GRAPH_CONTENT_TYPES.mermaid);
+    assert.match(await mermaid.text(), /^graph LR\n/);
+
+    const dot = await app.fetch(new Request('http://localhost/_graph?format=dot'));
+    assert.equal(dot.headers.get('content-type'), 'text/vnd.graphviz');
+    assert.equal(await dot.text(), graphToDot(app.getDependencyGraph()));
+
+    const invalid = await app.fetch(new Request('http://localhost/_graph?format=svg'));
+    assert.equal(invalid.status, 400);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Catch,
+  Controller,
+  FetchHandler,
+  Get,
+  HttpCode,
+  HttpError,
+  IExceptionFilter,
+  Injectable,
+  UseFilters,
+  YasuiRequest,
+  createApp,
+} from '../src/index.js';
+
+
+class DomainError extends Error {}
+class NotFoundError extends DomainError {}
+
+@Injectable()
+class ErrorFormatter {
+  public format(kind: string, error: unknown): Response {
+    return Response.json({ kind, message: (<Error>error).message }, { status: HttpCode.CONFLICT });
+  }
+}
+
+@Catch(DomainError)
+class DomainFilter implements IExceptionFilter {
+  constructor(private formatter: ErrorFormatter) {}
+
+  public catch(error: unknown): Response {
+    return this.formatter.format('domain', error);
+  }
+}
+
+@Catch(NotFoundError)
+class NotFoundFilter implements IExceptionFilter {
+  public catch(error: unknown, req: YasuiRequest): Response {
+    return Response.json({ kind: 'not-found', path: req.path }, { status: HttpCode.NOT_FOUND });
+  }
+}
+
+@Catch()
+class CatchAllFilter implements IExceptionFilter {
+  public catch(): Response {
+    return Response.json({ kind: 'global' }, { status: HttpCode.INTERNAL_SERVER_ERROR });
+  }
+}
+
+@UseFilters(DomainFilter)
+@Controller('/items')
+class ItemsController {
+  @Get('/domain')
+  public domain(): never {
+    throw new DomainError('domain failure');
+  }
+
+  @UseFilters(NotFoundFilter)
+  @Get('/missing')
+  public missing(): never {
+    throw new NotFoundError('missing');
+  }
+
+  @Get('/subclass')
+  public subclass(): never {
+    throw new NotFoundError('subclass');
+  }
+
+  @Get('/other')
+  public other(): never {
+    throw new TypeError('other');
+  }
+
+  @Get('/http')
+  public http(): never {
+    throw new HttpError(HttpCode.FORBIDDEN, 'forbidden');
+  }
+}
+
+async function get(app: FetchHandler, path: string): Promise<{ status: number; body: unknown }> {
+  const res = await app.fetch(new Request(`http://localhost${path}`));
+  return { status: res.status, body: await res.json() };
+}
+
+
+describe('exception filters', () => {
+  it('catches errors with controller filters resolved by injector', async () => {
+    const app = await createApp({ controllers: [ItemsController] });
+
+    assert.deepEqual(await get(app, '/items/domain'), {
+      status: HttpCode.CONFLICT,
+      body: { kind: 'domain', message: 'domain failure' },
+    });
+  });
+
+  it('prefers route filters over controller filters', async () => {
+    const app = await createApp({ controllers: [ItemsController] });
+
+    assert.deepEqual(await get(app, '/items/missing'), {
+      status: HttpCode.NOT_FOUND,
+      body: { kind: 'not-found', path: '/items/missing' },
+    });
+  });
+
+  it('matches error subclasses in the most specific scope', async () => {
+    const app = await createApp({ controllers: [ItemsController] });
+
+    assert.deepEqual((await get(app, '/items/subclass')).body, { kind: 'domain', message: 'subclass' });
+  });
+
+  it('falls back to global filters, then to default error handling', async () => {
+    const withGlobal = await createApp({
+      controllers: [ItemsController],
+      filters: [CatchAllFilter],
+    });
+    assert.deepEqual(await get(withGlobal, '/items/other'), {
+      status: HttpCode.INTERNAL_SERVER_ERROR,
+      body: { kind: 'global' },
+    });
+
+    const withoutGlobal = await createApp({ controllers: [ItemsController] });
+    const { status, body } = await get(withoutGlobal, '/items/http');
+    assert.equal(status, HttpCode.FORBIDDEN);
+    assert.equal((<{ message: string }>body).message, 'forbidden');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, Get, Inject, Injectable, createTestingApp, forwardRef } from '../src/index.js';
+
+
+@Injectable()
+class OrdersService {
+  constructor(@Inject(forwardRef(() => CustomersService)) public customers: InstanceType<typeof CustomersService>) {}
+
+  public summary(): string {
+    return `orders of ${this.customers.name()}`;
+  }
+}
+
+@Injectable()
+class CustomersService {
+  @Inject(forwardRef(() => InvoicesService)) public invoices!: InstanceType<typeof InvoicesService>;
+
+  constructor(public orders: OrdersService) {}
+
+  public name(): string {
+    return 'ada';
+  }
+}
+
+@Injectable()
+class InvoicesService {
+  constructor(public customers: CustomersService) {}
+}
+
+@Controller('/orders')
+class OrdersController {
+  constructor(private ordersService: OrdersService) {}
+
+  @Get('/')
+  public summary(): string {
+    return this.ordersService.summary();
+  }
+}
+
+@Injectable()
+class Notifier {
+  public readonly channel: string;
+
+  constructor(@Inject(forwardRef(() => Mailer)) mailer: InstanceType<typeof Mailer>) {
+    this.channel = mailer.channel;
+  }
+}
+
+@Injectable()
+class Mailer {
+  public readonly channel = 'mail';
+
+  constructor(public notifier: Notifier) {}
+}
+
+@Controller('/notifications')
+class NotificationsController {
+  constructor(private mailer: Mailer) {}
+
+  @Get('/')
+  public channel(): string {
+    return this.mailer.channel;
+  }
+}
+
+
+describe('forward references', () => {
+  it('resolves circular dependencies broken by forward references', async () => {
+    const error = mock.method(console, 'error', () => undefined);
+    try {
+      const app = await createTestingApp({ controllers: [OrdersController] });
+      const orders = app.get(OrdersService);
+
+      assert.equal(error.mock.callCount(), 0);
+      assert.equal(await (await app.fetch(new Request('http://localhost/orders'))).json(), 'orders of ada');
+      assert.equal(orders.customers.orders, orders);
+      assert.ok(orders.customers instanceof CustomersService);
+      assert.equal(orders.customers.invoices.customers, app.get(CustomersService));
+    } finally {
+      error.mock.restore();
+    }
+  });
+
+  it('reports forward referenced instances used in a constructor while being built', async () => {
+    const error = mock.method(console, 'error', () => undefined);
+    try {
+      const app = await createTestingApp({ controllers: [NotificationsController] });
+      const logs: string = error.mock.calls.map(({ arguments: args }) => args.join(' ')).join('\n');
+
+      assert.match(logs, /forward referenced Mailer is used in a constructor while being built/);
+      assert.match(logs, /\(NotificationsController -> Mailer -> Notifier\)/);
+      assert.equal((await app.fetch(new Request('http://localhost/notifications'))).status, 404);
+    } finally {
+      error.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Controller,
+  FetchHandler,
+  Get,
+  Guard,
+  HttpCode,
+  HttpError,
+  ICanActivate,
+  IExecutionContext,
+  IPipeTransform,
+  Param,
+  PipeTransform,
+  SetMetadata,
+  UseGuards,
+  UsePipes,
+  createApp,
+} from '../src/index.js';
+
+
+const Roles = (...roles: string[]): ClassDecorator & MethodDecorator => SetMetadata('roles', roles);
+
+@Guard()
+class RolesGuard implements ICanActivate {
+  public canActivate(context: IExecutionContext): boolean {
+    const roles = context.getMetadata<string[]>('roles') || [];
+    const role = context.req.headers.get('x-role') || '';
+    return !roles.length || roles.includes(role);
+  }
+}
+
+@Guard()
+class MaintenanceGuard implements ICanActivate {
+  public canActivate(context: IExecutionContext): boolean {
+    return context.req.headers.get('x-maintenance') !== 'on';
+  }
+}
+
+@PipeTransform()
+class RejectPipe implements IPipeTransform {
+  public transform(): never {
+    throw new HttpError(HttpCode.BAD_REQUEST, 'pipe reached');
+  }
+}
+
+@Roles('admin')
+@UseGuards(RolesGuard)
+@Controller('/admin')
+class AdminController {
+  @Get('/')
+  public dashboard(): { dashboard: boolean } {
+    return { dashboard: true };
+  }
+
+  @Roles('admin', 'support')
+  @Get('/tickets')
+  public tickets(): { tickets: boolean } {
+    return { tickets: true };
+  }
+
+  @UsePipes(RejectPipe)
+  @Get('/users/:id')
+  public user(@Param('id') id: string): { id: string } {
+    return { id };
+  }
+}
+
+function get(app: FetchHandler, path: string, headers: Record<string, string> = {}): Promise<Response> {
+  return Promise.resolve(app.fetch(new Request(`http://localhost${path}`, { headers })));
+}
+
+
+describe('guards', () => {
+  it('forbids requests when guard does not activate', async () => {
+    const app = await createApp({ controllers: [AdminController] });
+
+    assert.equal((await get(app, '/admin', { 'x-role': 'admin' })).status, HttpCode.OK);
+    assert.equal((await get(app, '/admin', { 'x-role': 'support' })).status, HttpCode.FORBIDDEN);
+  });
+
+  it('reads route metadata before controller metadata', async () => {
+    const app = await createApp({ controllers: [AdminController] });
+
+    assert.equal((await get(app, '/admin/tickets', { 'x-role': 'support' })).status, HttpCode.OK);
+  });
+
+  it('runs before pipes', async () => {
+    const app = await createApp({ controllers: [AdminController] });
+
+    assert.equal((await get(app, '/admin/users/1')).status, HttpCode.FORBIDDEN);
+    assert.equal((await get(app, '/admin/users/1', { 'x-role': 'admin' })).status, HttpCode.BAD_REQUEST);
+  });
+
+  it('applies global guards to all controllers routes', async () => {
+    const app = await createApp({
+      controllers: [AdminController],
+      guards: [MaintenanceGuard],
+    });
+
+    const res = await get(app, '/admin', { 'x-role': 'admin', 'x-maintenance': 'on' });
+    assert.equal(res.status, HttpCode.FORBIDDEN);
+    const { message }: { message: string } = await res.json();
+    assert.match(message, /Access denied to GET \/admin/);
+  });
+});
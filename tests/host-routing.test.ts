@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, FetchHandler, Get, HostParam, ISwaggerConfig, createApp } from '../src/index.js';
+
+
+@Controller({ path: '/status', host: ':tenant.example.com' })
+class TenantController {
+  @Get('/')
+  public status(@HostParam('tenant') tenant: string): { tenant: string } {
+    return { tenant };
+  }
+}
+
+@Controller({ path: '/status', host: 'admin.example.com' })
+class AdminController {
+  @Get('/')
+  public status(): { admin: boolean } {
+    return { admin: true };
+  }
+}
+
+@Controller('/status')
+class StatusController {
+  @Get('/')
+  public status(): { up: boolean } {
+    return { up: true };
+  }
+}
+
+function createHostsApp(swagger = false): Promise<FetchHandler> {
+  return createApp({
+    controllers: [TenantController, AdminController, StatusController],
+    swagger: swagger ? { generate: true, info: { title: 'Status', version: '1.0.0' } } : undefined,
+  });
+}
+
+async function getStatus(app: FetchHandler, url: string, headers: Record<string, string> = {}): Promise<unknown> {
+  const res = await app.fetch(new Request(url, { headers }));
+  return res.json();
+}
+
+
+describe('host routing', () => {
+  it('routes by Host header and exposes host params', async () => {
+    const app = await createHostsApp();
+
+    assert.deepEqual(await getStatus(app, 'http://localhost/status', { host: 'acme.example.com' }), { tenant: 'acme' });
+    assert.deepEqual(await getStatus(app, 'http://localhost/status', { host: 'localhost:3000' }), { up: true });
+  });
+
+  it('prefers static hosts over host patterns', async () => {
+    const app = await createHostsApp();
+
+    assert.deepEqual(await getStatus(app, 'http://admin.example.com/status'), { admin: true });
+  });
+
+  it('falls back to URL hostname without Host header', async () => {
+    const app = await createHostsApp();
+
+    assert.deepEqual(await getStatus(app, 'http://acme.example.com:8080/status'), { tenant: 'acme' });
+    assert.deepEqual(await getStatus(app, 'http://localhost/status'), { up: true });
+  });
+
+  it('documents routes of all hosts on the same operation servers', async () => {
+    const app = await createHostsApp(true);
+    const res = await app.fetch(new Request('http://localhost/api-docs/swagger.json'));
+    const { paths }: ISwaggerConfig = await res.json();
+
+    assert.deepEqual(paths['/status'].get?.servers?.map(({ url }) => url), [
+      '{protocol}://{tenant}.example.com',
+      '{protocol}://admin.example.com',
+      '/',
+    ]);
+  });
+});
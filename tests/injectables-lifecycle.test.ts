@@ -0,0 +1,172 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Controller,
+  Get,
+  IOnBootstrap,
+  IOnInit,
+  IOnShutdown,
+  Inject,
+  Injectable,
+  Scope,
+  Scopes,
+  createApp,
+} from '../src/index.js';
+/** internal modules are loaded in package order */
+import { onTerminationSignal } from '../src/utils/runtime.js';
+
+
+const calls: string[] = [];
+
+/** injectable recording its lifecycle hooks calls */
+abstract class Recorded implements IOnInit, IOnBootstrap, IOnShutdown {
+  public async onInit(): Promise<void> {
+    await Promise.resolve();
+    calls.push(`init ${this.constructor.name}`);
+  }
+
+  public onBootstrap(): void {
+    calls.push(`bootstrap ${this.constructor.name}`);
+  }
+
+  public onShutdown(signal?: string): void {
+    calls.push(`shutdown ${this.constructor.name}${signal ? ` ${signal}` : ''}`);
+  }
+}
+
+@Injectable()
+class Database extends Recorded {
+  public ready = false;
+
+  public override async onInit(): Promise<void> {
+    await super.onInit();
+    this.ready = true;
+  }
+}
+
+@Injectable()
+class UsersService extends Recorded {
+  constructor(public readonly db: Database) {
+    super();
+  }
+}
+
+@Injectable()
+class SessionStore extends Recorded {}
+
+@Injectable()
+class ReportsService extends Recorded {
+  public ready = false;
+
+  public override async onInit(): Promise<void> {
+    await super.onInit();
+    this.ready = true;
+  }
+}
+
+@Injectable()
+class ReportContext {
+  constructor(@Inject() @Scope(Scopes.LOCAL) public readonly reports: ReportsService) {}
+}
+
+@Controller('/reports')
+class ReportsController {
+  @Get('/')
+  public get(@Inject() @Scope(Scopes.REQUEST) context: ReportContext): boolean {
+    return context.reports.ready;
+  }
+}
+
+@Injectable()
+class RequestContext {
+  constructor(public readonly sessions: SessionStore) {}
+}
+
+@Controller('/users')
+class UsersController extends Recorded {
+  constructor(private usersService: UsersService) {
+    super();
+  }
+
+  @Get('/')
+  public list(@Inject() @Scope(Scopes.REQUEST) context: RequestContext): boolean {
+    return this.usersService.db.ready && !!context.sessions;
+  }
+}
+
+/** let late lifecycle hooks run */
+function flushHooks(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+
+describe('injectables lifecycle', () => {
+  it('runs hooks in dependency order, and shutdown hooks in reverse order', async () => {
+    calls.length = 0;
+    const app = await createApp({ controllers: [UsersController] });
+
+    assert.equal(await (await app.fetch(new Request('http://localhost/users'))).json(), true);
+    await app.shutdown('SIGTERM');
+    assert.deepEqual(calls, [
+      'init Database',
+      'init UsersService',
+      'init SessionStore',
+      'init UsersController',
+      'bootstrap Database',
+      'bootstrap UsersService',
+      'bootstrap SessionStore',
+      'bootstrap UsersController',
+      'shutdown UsersController SIGTERM',
+      'shutdown SessionStore SIGTERM',
+      'shutdown UsersService SIGTERM',
+      'shutdown Database SIGTERM',
+    ]);
+  });
+
+  it('initializes and bootstraps instances built after startup', async () => {
+    const app = await createApp({ controllers: [ReportsController] });
+    calls.length = 0;
+
+    const res = await app.fetch(new Request('http://localhost/reports'));
+    assert.equal(await res.json(), true);
+    assert.deepEqual(calls, ['init ReportsService', 'bootstrap ReportsService']);
+  });
+
+  it('handles first termination signal only once, then raises it again', async () => {
+    const kill = mock.method(process, 'kill', () => true);
+    try {
+      const signals: string[] = [];
+      onTerminationSignal((signal) => {
+        signals.push(signal);
+        return Promise.resolve();
+      });
+
+      process.emit('SIGTERM');
+      await flushHooks();
+      assert.deepEqual(signals, ['SIGTERM']);
+      assert.equal(process.listenerCount('SIGINT'), 0);
+      assert.equal(process.listenerCount('SIGTERM'), 0);
+      assert.deepEqual(kill.mock.calls.map(({ arguments: args }) => args), [[process.pid, 'SIGTERM']]);
+    } finally {
+      kill.mock.restore();
+    }
+  });
+
+  it('leaves handled termination signal to other listeners', async () => {
+    const kill = mock.method(process, 'kill', () => true);
+    const otherListener = (): void => undefined;
+    process.on('SIGINT', otherListener);
+    try {
+      onTerminationSignal(() => Promise.resolve());
+
+      process.emit('SIGINT');
+      await flushHooks();
+      assert.equal(process.listenerCount('SIGINT'), 1);
+      assert.equal(kill.mock.callCount(), 0);
+    } finally {
+      process.off('SIGINT', otherListener);
+      kill.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, Get, Inject, Injectable, InjectionToken, createApp } from '../src/index.js';
+
+
+class DbClient {
+  constructor(public readonly url: string) {}
+}
+
+const DB_CLIENT = new InjectionToken<DbClient>('db client');
+const DATABASE_URL = new InjectionToken<string>('database url');
+const MISSING = new InjectionToken<string>('missing');
+
+@Injectable()
+class UserService {
+  constructor(@Inject(DB_CLIENT) public readonly db: DbClient) {}
+}
+
+@Injectable()
+class OrphanService {
+  constructor(@Inject(MISSING) public readonly value: string) {}
+}
+
+@Controller('/users')
+class UsersController {
+  constructor(
+    private userService: UserService,
+    @Inject(DB_CLIENT) private db: DbClient,
+    @Inject(DATABASE_URL) private url: string
+  ) {}
+
+  @Get('/')
+  public get(): { url: string; dbUrl: string; shared: boolean } {
+    return { url: this.url, dbUrl: this.db.url, shared: this.userService.db === this.db };
+  }
+}
+
+@Controller('/orphans')
+class OrphansController {
+  constructor(private orphanService: OrphanService) {}
+
+  @Get('/')
+  public list(): string {
+    return this.orphanService.value;
+  }
+}
+
+
+describe('injection tokens', () => {
+  it('registers and injects providers by token identity', async () => {
+    const app = await createApp({
+      controllers: [UsersController],
+      injections: [
+        { token: DATABASE_URL, provide: 'db://local' },
+        { token: DB_CLIENT, useFactory: (url: string): DbClient => new DbClient(url), inject: [DATABASE_URL] },
+        { token: new InjectionToken<string>('database url'), provide: 'db://other' },
+      ],
+    });
+    const res = await app.fetch(new Request('http://localhost/users'));
+
+    assert.deepEqual(await res.json(), { url: 'db://local', dbUrl: 'db://local', shared: true });
+  });
+
+  it('checks providers against token type at compile time', async () => {
+    const error = mock.method(console, 'error', () => undefined);
+    try {
+      const app = await createApp({
+        controllers: [UsersController],
+        injections: [
+          // @ts-expect-error number provider of a string token
+          { token: DATABASE_URL, provide: 5432 },
+          { token: DB_CLIENT, provide: new DbClient('db://local') },
+        ],
+      });
+      const res = await app.fetch(new Request('http://localhost/users'));
+      assert.equal((await res.json()).url, 5432);
+    } finally {
+      error.mock.restore();
+    }
+  });
+
+  it('reports unregistered tokens by description', async () => {
+    const error = mock.method(console, 'error', () => undefined);
+    try {
+      await createApp({ controllers: [OrphansController] });
+      const logs: string = error.mock.calls.map(({ arguments: args }) => args.join(' ')).join('\n');
+
+      assert.match(logs, /Injection token InjectionToken\(missing\) is not registered/);
+    } finally {
+      error.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, Get, Inject, Injectable, createTestingApp } from '../src/index.js';
+
+
+/** same class name in several features, as after minification */
+function createUserService(feature: string): new () => { feature: string } {
+  @Injectable()
+  class UserService {
+    public readonly feature: string = feature;
+  }
+  return UserService;
+}
+
+const BillingUserService = createUserService('billing');
+const AuthUserService = createUserService('auth');
+
+/** same class name as the class it depends on */
+function wrapUserService(
+  Inner: new () => { feature: string }
+): new (inner: { feature: string }) => { inner: { feature: string } } {
+  @Injectable()
+  class UserService {
+    constructor(@Inject(Inner) public readonly inner: { feature: string }) {}
+  }
+  return UserService;
+}
+
+const WrappingUserService = wrapUserService(AuthUserService);
+
+@Controller('/features')
+class FeaturesController {
+  constructor(
+    @Inject(BillingUserService) private billingUsers: { feature: string },
+    @Inject(AuthUserService) private authUsers: { feature: string }
+  ) {}
+
+  @Get('/')
+  public list(): string[] {
+    return [this.billingUsers.feature, this.authUsers.feature];
+  }
+}
+
+
+@Controller('/wrapped')
+class WrappedController {
+  constructor(@Inject(WrappingUserService) private users: { inner: { feature: string } }) {}
+
+  @Get('/')
+  public get(): string {
+    return this.users.inner.feature;
+  }
+}
+
+
+describe('injector registry', () => {
+  it('keeps homonymous classes apart', async () => {
+    const app = await createTestingApp({ controllers: [FeaturesController] });
+    const res = await app.fetch(new Request('http://localhost/features'));
+
+    assert.equal(BillingUserService.name, AuthUserService.name);
+    assert.deepEqual(await res.json(), ['billing', 'auth']);
+    assert.notEqual(app.get(BillingUserService), app.get(AuthUserService));
+  });
+
+  it('keeps string tokens apart from classes of the same name', async () => {
+    const app = await createTestingApp({
+      providers: [{ token: 'UserService', provide: { feature: 'token' } }],
+    });
+
+    assert.deepEqual(app.get('UserService'), { feature: 'token' });
+    assert.equal(app.get(BillingUserService).feature, 'billing');
+  });
+
+  it('does not report a dependency on a homonymous class as circular', async () => {
+    const app = await createTestingApp({ controllers: [WrappedController] });
+    const res = await app.fetch(new Request('http://localhost/wrapped'));
+
+    assert.equal(WrappingUserService.name, AuthUserService.name);
+    assert.equal(await res.json(), 'auth');
+  });
+});
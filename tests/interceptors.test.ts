@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  CallHandler,
+  Controller,
+  FetchHandler,
+  Get,
+  IExecutionContext,
+  IInterceptor,
+  Injectable,
+  Interceptor,
+  UseInterceptors,
+  YasuiApp,
+  createApp,
+} from '../src/index.js';
+
+
+const recordedCalls: string[] = [];
+
+@Injectable()
+class CallsRecorder {
+  public record(call: string): void {
+    recordedCalls.push(call);
+  }
+}
+
+@Interceptor()
+class EnvelopeInterceptor implements IInterceptor {
+  constructor(private recorder: CallsRecorder) {}
+
+  public async intercept(context: IExecutionContext, next: CallHandler): Promise<unknown> {
+    this.recorder.record(`envelope ${context.methodName}`);
+    return { data: await next() };
+  }
+}
+
+@Interceptor()
+class UppercaseInterceptor implements IInterceptor {
+  public async intercept(_context: IExecutionContext, next: CallHandler): Promise<unknown> {
+    const data = await next();
+    return typeof data === 'string' ? data.toUpperCase() : data;
+  }
+}
+
+@Interceptor()
+class GlobalInterceptor implements IInterceptor {
+  public async intercept(_context: IExecutionContext, next: CallHandler): Promise<unknown> {
+    return { global: await next() };
+  }
+}
+
+@Interceptor()
+class CacheInterceptor implements IInterceptor {
+  public intercept(): unknown {
+    return 'cached';
+  }
+}
+
+@UseInterceptors(EnvelopeInterceptor)
+@Controller('/items')
+class ItemsController {
+  @UseInterceptors(UppercaseInterceptor)
+  @Get('/name')
+  public name(): string {
+    return 'item';
+  }
+
+  @UseInterceptors(CacheInterceptor)
+  @Get('/cached')
+  public cached(): string {
+    throw new Error('handler should not be called');
+  }
+
+  @Get('/raw')
+  public raw(): Response {
+    return new Response('raw body', { status: 202 });
+  }
+}
+
+function createItemsApp(): Promise<YasuiApp> {
+  return createApp({ controllers: [ItemsController] });
+}
+
+function get(app: FetchHandler, path: string): Promise<Response> {
+  return Promise.resolve(app.fetch(new Request(`http://localhost${path}`)));
+}
+
+
+describe('interceptors', () => {
+  it('maps raw handler results, controller interceptors being outermost', async () => {
+    const app = await createItemsApp();
+
+    assert.deepEqual(await (await get(app, '/items/name')).json(), { data: 'ITEM' });
+  });
+
+  it('can answer without calling handler', async () => {
+    const app = await createItemsApp();
+
+    assert.deepEqual(await (await get(app, '/items/cached')).json(), { data: 'cached' });
+  });
+
+  it('sends Response returned by handler as is', async () => {
+    const app = await createItemsApp();
+    recordedCalls.length = 0;
+    const res = await get(app, '/items/raw');
+
+    assert.equal(res.status, 202);
+    assert.equal(await res.text(), 'raw body');
+    assert.deepEqual(recordedCalls, ['envelope raw']);
+  });
+
+  it('resolves global interceptors through injector, before controller interceptors', async () => {
+    const app = await createApp({ controllers: [ItemsController], interceptors: [GlobalInterceptor] });
+
+    assert.deepEqual(await (await get(app, '/items/cached')).json(), { global: { data: 'cached' } });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, Get, IResponseInfo, Param, createApp } from '../src/index.js';
+
+
+const calls: string[] = [];
+
+/** hook recording its call */
+function record(label: string): () => void {
+  return () => void calls.push(label);
+}
+
+@Controller({
+  path: '/items',
+  hooks: {
+    onRequest: [record('controller onRequest')],
+    preHandler: [(_req, args): void => record(`controller preHandler ${JSON.stringify(args)}`)()],
+  },
+})
+class ItemsController {
+  @Get('/:id')
+  public get(@Param('id') id: string): { id: string } {
+    calls.push('handler');
+    if (id === 'fail') {
+      throw new Error('failure');
+    }
+    return { id };
+  }
+}
+
+/** let fire-and-forget hooks run */
+function flushHooks(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+
+describe('lifecycle hooks', () => {
+  it('runs hooks in request lifecycle order', async () => {
+    calls.length = 0;
+    const infos: IResponseInfo[] = [];
+    const app = await createApp({
+      controllers: [ItemsController],
+      hooks: {
+        onRequest: [(req): void => record(`onRequest ${req.path}`)()],
+        preHandler: [record('preHandler')],
+        onSend: [record('onSend')],
+        onResponse: [(_req, info): void => void infos.push(info)],
+      },
+    });
+
+    const res = await app.fetch(new Request('http://localhost/items/1'));
+    await flushHooks();
+    assert.deepEqual(await res.json(), { id: '1' });
+    assert.deepEqual(calls, [
+      'onRequest /items/1',
+      'controller onRequest',
+      'preHandler',
+      'controller preHandler ["1"]',
+      'handler',
+      'onSend',
+    ]);
+    assert.equal(infos.length, 1);
+    assert.equal(infos[0].status, 200);
+    assert.equal(typeof infos[0].duration, 'number');
+  });
+
+  it('answers early from onRequest and preHandler hooks', async () => {
+    calls.length = 0;
+    const onRequestApp = await createApp({
+      controllers: [ItemsController],
+      hooks: { onRequest: [(): Response => new Response('maintenance', { status: 503 })] },
+    });
+    const maintenance = await onRequestApp.fetch(new Request('http://localhost/items/1'));
+    assert.equal(maintenance.status, 503);
+
+    const preHandlerApp = await createApp({
+      controllers: [ItemsController],
+      hooks: { preHandler: [(): Response => Response.json({ cached: true })] },
+    });
+    const cached = await preHandlerApp.fetch(new Request('http://localhost/items/1'));
+    assert.deepEqual(await cached.json(), { cached: true });
+    assert.ok(!calls.includes('handler'));
+  });
+
+  it('replaces response from onSend hooks', async () => {
+    const app = await createApp({
+      controllers: [ItemsController],
+      hooks: { onSend: [(_req, response): Response => new Response(response.body, { status: 201 })] },
+    });
+    const res = await app.fetch(new Request('http://localhost/items/1'));
+
+    assert.equal(res.status, 201);
+    assert.deepEqual(await res.json(), { id: '1' });
+  });
+
+  it('sends onRequest early responses through onSend hooks and compression', async () => {
+    const app = await createApp({
+      controllers: [ItemsController],
+      compression: true,
+      hooks: {
+        onRequest: [(): Response => Response.json({ maintenance: true }, { status: 503 })],
+        onSend: [(_req, response): void => response.headers.set('x-sent', 'true')],
+      },
+    });
+    const res = await app.fetch(new Request('http://localhost/items/1', {
+      headers: { 'accept-encoding': 'gzip' },
+    }));
+
+    assert.equal(res.status, 503);
+    assert.equal(res.headers.get('x-sent'), 'true');
+    assert.equal(res.headers.get('content-encoding'), 'gzip');
+    const body = await new Response(res.body!.pipeThrough(new DecompressionStream('gzip'))).json();
+    assert.deepEqual(body, { maintenance: true });
+  });
+
+  it('sends error responses through onSend hooks', async () => {
+    const statuses: number[] = [];
+    const app = await createApp({
+      controllers: [ItemsController],
+      hooks: { onSend: [(_req, response): void => void statuses.push(response.status)] },
+    });
+    const res = await app.fetch(new Request('http://localhost/items/fail'));
+
+    assert.equal(res.status, 500);
+    assert.deepEqual(statuses, [500]);
+  });
+
+  it('observes errors without altering error response', async () => {
+    const errors: unknown[] = [];
+    const app = await createApp({
+      controllers: [ItemsController],
+      hooks: { onError: [(error): void => void errors.push(error)] },
+    });
+
+    const res = await app.fetch(new Request('http://localhost/items/fail'));
+    await flushHooks();
+    assert.equal(res.status, 500);
+    assert.deepEqual(errors.map(error => (<Error>error).message), ['failure']);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  ApiOperation,
+  Controller,
+  Get,
+  IMatchedRoute,
+  RequestHandler,
+  Route,
+  YasuiRequest,
+  createApp,
+} from '../src/index.js';
+
+
+@Controller('/users')
+class UsersController {
+  @Get('/:id<int>')
+  @ApiOperation('Get user')
+  public get(@Route() route: IMatchedRoute): Omit<IMatchedRoute, 'controller'> & { controller?: string } {
+    return { ...route, controller: route.controller?.name };
+  }
+}
+
+
+describe('matched route', () => {
+  it('injects matched route pattern, method, controller and swagger metadata', async () => {
+    const app = await createApp({ controllers: [UsersController] });
+    const res = await app.fetch(new Request('http://localhost/users/42'));
+
+    assert.deepEqual(await res.json(), {
+      path: '/users/:id',
+      method: 'GET',
+      controller: 'UsersController',
+      methodName: 'get',
+      swagger: { summary: 'Get user' },
+    });
+  });
+
+  it('exposes matched route to middlewares', async () => {
+    const patterns: (string | undefined)[] = [];
+    const metrics: RequestHandler = (req: YasuiRequest, next) => {
+      patterns.push(req.route?.path);
+      return next!();
+    };
+    const app = await createApp({ controllers: [UsersController], middlewares: [metrics] });
+
+    await app.fetch(new Request('http://localhost/users/1'));
+    await app.fetch(new Request('http://localhost/users/2'));
+    await app.fetch(new Request('http://localhost/unknown'));
+    assert.deepEqual(patterns, ['/users/:id', '/users/:id', undefined]);
+  });
+});
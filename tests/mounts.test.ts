@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Body, Controller, Get, Post, RequestHandler, createApp } from '../src/index.js';
+import { Core } from '../src/core.js';
+
+
+@Controller('/users')
+class UsersController {
+  @Get('/')
+  public list(): string[] {
+    return ['alice'];
+  }
+
+  @Post('/')
+  public create(@Body() body: { name: string }): { created: string } {
+    return { created: body.name };
+  }
+}
+
+/** third-party handler echoing the request it receives */
+async function echo(req: Request): Promise<Response> {
+  const { pathname, search } = new URL(req.url);
+  return Response.json({ method: req.method, path: pathname + search, body: await req.text() });
+}
+
+/** global middleware reading request body before routes */
+const auditBody: RequestHandler = async (req, next) => {
+  if (req.method === 'POST') {
+    await req.json();
+  }
+  return next!();
+};
+
+const poweredBy: RequestHandler = async (_req, next) => {
+  const res = await next!();
+  const headers = new Headers(res.headers);
+  headers.set('x-powered-by', 'yasui');
+  return new Response(res.body, { status: res.status, headers });
+};
+
+
+describe('mounts', () => {
+  it('strips mount path from requests passed to fetch handlers', async () => {
+    const app = await createApp({ mounts: [{ path: '/echo', fetch: echo }] });
+
+    const root = await app.fetch(new Request('http://localhost/echo'));
+    assert.deepEqual(await root.json(), { method: 'GET', path: '/', body: '' });
+
+    const nested = await app.fetch(new Request('http://localhost/echo/a/b?c=d', { method: 'PUT', body: 'data' }));
+    assert.deepEqual(await nested.json(), { method: 'PUT', path: '/a/b?c=d', body: 'data' });
+  });
+
+  it('mounts another app with global middlewares applied', async () => {
+    const subApp = await createApp({ controllers: [UsersController] });
+    const app = await createApp({
+      middlewares: [poweredBy],
+      mounts: [{ path: '/v1', fetch: subApp.fetch }],
+    });
+
+    const list = await app.fetch(new Request('http://localhost/v1/users'));
+    assert.deepEqual(await list.json(), ['alice']);
+    assert.equal(list.headers.get('x-powered-by'), 'yasui');
+
+    const created = await app.fetch(new Request('http://localhost/v1/users', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ name: 'bob' }),
+    }));
+    assert.deepEqual(await created.json(), { created: 'bob' });
+  });
+
+  it('forwards request body already read by a global middleware', async () => {
+    const subApp = await createApp({ controllers: [UsersController] });
+    const app = await createApp({ middlewares: [auditBody], mounts: [{ path: '/v1', fetch: subApp.fetch }] });
+
+    const created = await app.fetch(new Request('http://localhost/v1/users', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ name: 'bob' }),
+    }));
+    assert.equal(created.status, 200);
+    assert.deepEqual(await created.json(), { created: 'bob' });
+  });
+
+  it('accepts fetch handlers as mount targets', async () => {
+    const subApp = await createApp({ controllers: [UsersController] });
+    const core = new Core({});
+    core.mount('/v2', subApp);
+    const app = await core.createApp();
+
+    const res = await app.fetch(new Request('http://localhost/v2/users'));
+    assert.deepEqual(await res.json(), ['alice']);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Controller,
+  Get,
+  Inject,
+  InjectAll,
+  Injectable,
+  InjectionToken,
+  Optional,
+  createApp,
+} from '../src/index.js';
+
+
+interface HealthIndicator {
+  name: string;
+  check(): boolean;
+}
+
+const HEALTH_INDICATORS = new InjectionToken<HealthIndicator>('health indicators');
+const PLUGINS = new InjectionToken<string>('plugins');
+
+@Injectable()
+class DbClient {
+  public connected = true;
+}
+
+@Injectable()
+class DatabaseHealth implements HealthIndicator {
+  public readonly name = 'database';
+
+  constructor(private db: DbClient) {}
+
+  public check(): boolean {
+    return this.db.connected;
+  }
+}
+
+@Controller('/health')
+class HealthController {
+  constructor(@InjectAll(HEALTH_INDICATORS) private indicators: HealthIndicator[]) {}
+
+  @Get('/')
+  public check(): { name: string; up: boolean }[] {
+    return this.indicators.map((indicator) => ({ name: indicator.name, up: indicator.check() }));
+  }
+}
+
+@Injectable()
+class PluginsRegistry {
+  @Optional() @InjectAll(PLUGINS) public plugins!: string[];
+}
+
+@Controller('/plugins')
+class PluginsController {
+  constructor(private registry: PluginsRegistry) {}
+
+  @Get('/')
+  public list(): string[] {
+    return this.registry.plugins;
+  }
+}
+
+@Injectable()
+class MisusedService {
+  constructor(@Inject(HEALTH_INDICATORS) public readonly indicator: HealthIndicator) {}
+}
+
+@Controller('/misused')
+class MisusedController {
+  constructor(private misusedService: MisusedService) {}
+
+  @Get('/')
+  public get(): string {
+    return this.misusedService.indicator.name;
+  }
+}
+
+
+describe('multi-providers', () => {
+  it('injects all contributions in registration order, building class contributions', async () => {
+    const app = await createApp({
+      controllers: [HealthController],
+      injections: [
+        { token: HEALTH_INDICATORS, useClass: DatabaseHealth, multi: true },
+        { token: HEALTH_INDICATORS, provide: { name: 'app', check: (): boolean => true }, multi: true },
+        {
+          token: HEALTH_INDICATORS,
+          useFactory: (db: DbClient): HealthIndicator => ({ name: 'cache', check: (): boolean => !db.connected }),
+          inject: [DbClient],
+          multi: true,
+        },
+      ],
+    });
+    const res = await app.fetch(new Request('http://localhost/health'));
+
+    assert.deepEqual(await res.json(), [
+      { name: 'database', up: true },
+      { name: 'app', up: true },
+      { name: 'cache', up: false },
+    ]);
+  });
+
+  it('injects an empty array for optional extension points without contribution', async () => {
+    const app = await createApp({ controllers: [PluginsController] });
+    const res = await app.fetch(new Request('http://localhost/plugins'));
+
+    assert.deepEqual(await res.json(), []);
+  });
+
+  it('reports multi-provider tokens injected as single dependency', async () => {
+    const error = mock.method(console, 'error', () => undefined);
+    try {
+      await createApp({
+        controllers: [MisusedController],
+        injections: [{ token: HEALTH_INDICATORS, useClass: DatabaseHealth, multi: true }],
+      });
+      const logs: string = error.mock.calls.map(({ arguments: args }) => args.join(' ')).join('\n');
+
+      assert.match(logs, /Injection token 'InjectionToken\(health indicators\)' at parameter 0 is a multi-provider/);
+    } finally {
+      error.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, Get, Inject, Injectable, Optional, createApp } from '../src/index.js';
+
+
+class MetricsClient {
+  public readonly name = 'metrics';
+}
+
+@Injectable()
+class AuditLogger {
+  public readonly name = 'audit';
+}
+
+@Injectable()
+class NotificationService {
+  constructor(
+    @Optional() @Inject('SLACK_WEBHOOK') public readonly webhook?: string,
+    @Optional() public readonly metrics?: MetricsClient
+  ) {}
+}
+
+abstract class BaseController {
+  @Inject() protected logger!: AuditLogger;
+  @Inject('APP_NAME') protected appName!: string;
+  @Optional() @Inject('REGION') protected region?: string;
+}
+
+@Controller('/orders')
+class OrderController extends BaseController {
+  constructor(private notificationService: NotificationService) {
+    super();
+  }
+
+  @Get('/')
+  public info(): Record<string, string | undefined> {
+    return {
+      logger: this.logger.name,
+      appName: this.appName,
+      region: this.region,
+      webhook: this.notificationService.webhook,
+    };
+  }
+}
+
+@Controller('/notifications')
+class NotificationsController {
+  constructor(private notificationService: NotificationService) {}
+
+  @Get('/')
+  public info(): { webhook?: string; metrics?: string } {
+    const { webhook, metrics } = this.notificationService;
+    return { webhook, metrics: metrics?.name };
+  }
+}
+
+
+describe('optional and property injection', () => {
+  it('resolves missing optional dependencies to undefined without validation errors', async () => {
+    const error = mock.method(console, 'error', () => undefined);
+    try {
+      const app = await createApp({
+        controllers: [OrderController, NotificationsController],
+        injections: [{ token: 'APP_NAME', provide: 'shop' }],
+      });
+      const res = await app.fetch(new Request('http://localhost/notifications'));
+
+      assert.equal(error.mock.callCount(), 0);
+      assert.deepEqual(await res.json(), {});
+    } finally {
+      error.mock.restore();
+    }
+  });
+
+  it('resolves optional dependencies once registered', async () => {
+    const app = await createApp({
+      controllers: [NotificationsController],
+      injections: [
+        { token: 'SLACK_WEBHOOK', provide: 'https://hooks.local' },
+        { token: MetricsClient, provide: new MetricsClient() },
+      ],
+    });
+    const res = await app.fetch(new Request('http://localhost/notifications'));
+
+    assert.deepEqual(await res.json(), { webhook: 'https://hooks.local', metrics: 'metrics' });
+  });
+
+  it('injects properties of base classes after construction', async () => {
+    const app = await createApp({
+      controllers: [OrderController],
+      injections: [
+        { token: 'APP_NAME', provide: 'shop' },
+        { token: 'REGION', provide: 'eu' },
+      ],
+    });
+    const res = await app.fetch(new Request('http://localhost/orders'));
+
+    assert.deepEqual(await res.json(), { logger: 'audit', appName: 'shop', region: 'eu' });
+  });
+
+  it('reports missing required properties dependencies', async () => {
+    const error = mock.method(console, 'error', () => undefined);
+    try {
+      await createApp({ controllers: [OrderController] });
+      const logs: string = error.mock.calls.map(({ arguments: args }) => args.join(' ')).join('\n');
+
+      assert.match(logs, /Injection token 'APP_NAME' is not registered/);
+      assert.doesNotMatch(logs, /REGION/);
+    } finally {
+      error.mock.restore();
+    }
+  });
+});
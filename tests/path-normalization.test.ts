@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, FetchHandler, Get, Param, YasuiRoutingConfig, createApp } from '../src/index.js';
+
+
+@Controller('/users')
+class UsersController {
+  @Get('/')
+  public list(): string[] {
+    return ['alice'];
+  }
+
+  @Get('/:id/Profile')
+  public profile(@Param('id') id: string): { id: string } {
+    return { id };
+  }
+}
+
+function createRoutingApp(routing?: YasuiRoutingConfig): Promise<FetchHandler> {
+  return createApp({ controllers: [UsersController], routing });
+}
+
+function get(app: FetchHandler, path: string): Promise<Response> {
+  return Promise.resolve(app.fetch(new Request(`http://localhost${path}`)));
+}
+
+
+describe('path normalization', () => {
+  it('ignores trailing slash and collapses duplicate slashes by default', async () => {
+    const app = await createRoutingApp();
+
+    assert.equal((await get(app, '/users')).status, 200);
+    assert.equal((await get(app, '/users/')).status, 200);
+    assert.equal((await get(app, '//users///1/Profile')).status, 200);
+  });
+
+  it('distinguishes trailing slash in strict mode', async () => {
+    const app = await createRoutingApp({ trailingSlash: 'strict' });
+
+    assert.equal((await get(app, '/users')).status, 200);
+    assert.equal((await get(app, '/users/')).status, 404);
+    assert.equal((await get(app, '/users/1')).status, 404);
+  });
+
+  it('redirects to registered path with 308 in redirect mode', async () => {
+    const app = await createRoutingApp({ trailingSlash: 'redirect' });
+    const res = await get(app, '/users/?page=2');
+
+    assert.equal(res.status, 308);
+    assert.equal(res.headers.get('location'), '/users?page=2');
+    assert.equal((await get(app, '//users')).headers.get('location'), '/users');
+  });
+
+  it('matches static segments case insensitively, keeping params case', async () => {
+    const app = await createRoutingApp({ caseSensitive: false });
+    const res = await get(app, '/USERS/AbC/profile');
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { id: 'AbC' });
+    assert.equal((await get(app, '/users/1/PROFILE')).status, 200);
+  });
+
+  it('matches static segments case sensitively by default', async () => {
+    const app = await createRoutingApp();
+
+    assert.equal((await get(app, '/users/1/Profile')).status, 200);
+    assert.equal((await get(app, '/users/1/profile')).status, 404);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Controller,
+  FetchHandler,
+  Get,
+  Inject,
+  Injectable,
+  Injection,
+  TController,
+  createApp,
+  forwardRef,
+} from '../src/index.js';
+
+
+@Injectable()
+class ConfigService {
+  public readonly url = 'db://local';
+}
+
+class DbClient {
+  constructor(public readonly url: string, public readonly poolSize: number) {}
+}
+
+abstract class UserStore {
+  public abstract readonly db: DbClient;
+}
+
+@Injectable()
+class SqlUserStore implements UserStore {
+  constructor(public readonly db: DbClient, @Inject('TABLE') public readonly table: string) {}
+}
+
+@Injectable()
+class ServiceA {
+  constructor(@Inject(forwardRef(() => ServiceB)) public readonly serviceB: InstanceType<typeof ServiceB>) {}
+}
+
+@Injectable()
+class ServiceB {
+  public readonly name = 'B';
+
+  constructor(public readonly serviceA: ServiceA) {}
+}
+
+@Controller('/stores')
+class StoresController {
+  constructor(private store: UserStore, @Inject('DB') private db: DbClient) {}
+
+  @Get('/')
+  public get(): { url: string; poolSize: number; table: string; aliased: boolean } {
+    const { db, table } = this.store as SqlUserStore;
+    return { url: db.url, poolSize: db.poolSize, table, aliased: db === this.db };
+  }
+}
+
+@Controller('/values')
+class ValuesController {
+  constructor(@Inject('D') private value: string) {}
+
+  @Get('/')
+  public get(): string {
+    return this.value;
+  }
+}
+
+@Controller('/services')
+class ServicesController {
+  constructor(@Inject('SERVICE') private service: ServiceA) {}
+
+  @Get('/')
+  public get(): { name: string; cyclic: boolean } {
+    return { name: this.service.serviceB.name, cyclic: this.service.serviceB.serviceA === this.service };
+  }
+}
+
+/** create app capturing decorator validation errors output */
+async function createProvidersApp(
+  injections: Injection[],
+  controllers: TController[]
+): Promise<{ app: FetchHandler; errors: string }> {
+  const error = mock.method(console, 'error', () => undefined);
+  try {
+    const app = await createApp({ injections, controllers });
+    return { app, errors: error.mock.calls.map(({ arguments: args }) => args.join(' ')).join('\n') };
+  } finally {
+    error.mock.restore();
+  }
+}
+
+
+describe('providers', () => {
+  it('resolves providers in dependency order whatever their configuration order', async () => {
+    const { app, errors } = await createProvidersApp([
+      { token: 'DB', useExisting: DbClient },
+      { token: UserStore, useClass: SqlUserStore },
+      {
+        token: DbClient,
+        useFactory: (config: ConfigService, poolSize: number): DbClient => new DbClient(config.url, poolSize),
+        inject: [ConfigService, 'POOL_SIZE'],
+      },
+      { token: 'TABLE', provide: 'users' },
+      { token: 'POOL_SIZE', provide: 10 },
+    ], [StoresController]);
+    const res = await app.fetch(new Request('http://localhost/stores'));
+
+    assert.equal(errors, '');
+    assert.deepEqual(await res.json(), { url: 'db://local', poolSize: 10, table: 'users', aliased: true });
+  });
+
+  it('reports providers cycles as validation errors without registering them', async () => {
+    const { app, errors } = await createProvidersApp([
+      { token: 'A', useFactory: (b: string): string => `A(${b})`, inject: ['B'] },
+      { token: 'B', useExisting: 'A' },
+      { token: 'C', useFactory: (a: string): string => `C(${a})`, inject: ['A'] },
+      { token: 'D', provide: 'D' },
+    ], [ValuesController]);
+    const res = await app.fetch(new Request('http://localhost/values'));
+
+    assert.match(errors, /Circular injection dependency detected: A -> B -> A/);
+    assert.match(errors, /forwardRef/);
+    assert.doesNotMatch(errors, /'C'/);
+    assert.equal(await res.json(), 'D');
+  });
+
+  it('does not report cycles broken by forward references', async () => {
+    const { app, errors } = await createProvidersApp([{ token: 'SERVICE', useClass: ServiceA }], [ServicesController]);
+    const res = await app.fetch(new Request('http://localhost/services'));
+
+    assert.equal(errors, '');
+    assert.deepEqual(await res.json(), { name: 'B', cyclic: true });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Controller,
+  FetchHandler,
+  Get,
+  Inject,
+  Injectable,
+  Scope,
+  Scopes,
+  YasuiRequest,
+  createApp,
+} from '../src/index.js';
+
+
+const disposed: string[] = [];
+let contextsCount = 0;
+
+@Injectable()
+class RequestContext {
+  public readonly id = ++contextsCount;
+
+  constructor(private req: YasuiRequest) {}
+
+  get user(): string | null {
+    return this.req.headers.get('x-user');
+  }
+
+  public [Symbol.dispose](): void {
+    disposed.push(`context ${this.id}`);
+  }
+}
+
+@Injectable()
+class AuditTrail {
+  constructor(@Inject() @Scope(Scopes.REQUEST) public readonly context: RequestContext) {}
+
+  public [Symbol.asyncDispose](): Promise<void> {
+    disposed.push(`audit ${this.context.id}`);
+    return Promise.resolve();
+  }
+}
+
+@Controller('/profile')
+class ProfileController {
+  @Get('/')
+  public get(
+    @Inject() @Scope(Scopes.REQUEST) context: RequestContext,
+    @Inject() @Scope(Scopes.REQUEST) audit: AuditTrail
+  ): { id: number; user: string | null; shared: boolean } {
+    return { id: context.id, user: context.user, shared: audit.context === context };
+  }
+}
+
+/** lets tests settle handlers while their request is pending */
+let releaseHandler: () => void = () => undefined;
+
+@Controller('/stream')
+class StreamController {
+  @Get('/')
+  public get(@Inject() @Scope(Scopes.REQUEST) context: RequestContext): Response {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller): void {
+        controller.enqueue(encoder.encode(`context ${context.id} `));
+      },
+      pull(controller): void {
+        controller.enqueue(encoder.encode(`streamed by ${context.user}`));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { 'content-type': 'text/plain' } });
+  }
+
+  @Get('/slow')
+  public async slow(@Inject() @Scope(Scopes.REQUEST) context: RequestContext): Promise<number> {
+    await new Promise<void>(resolve => releaseHandler = resolve);
+    return context.id;
+  }
+}
+
+@Injectable()
+class SessionStore {
+  constructor(@Inject() @Scope(Scopes.REQUEST) public readonly context: RequestContext) {}
+}
+
+@Controller('/sessions')
+class SessionsController {
+  constructor(private store: SessionStore) {}
+
+  @Get('/')
+  public get(): boolean {
+    return !!this.store;
+  }
+}
+
+function get(app: FetchHandler, user: string, path = '/profile'): Promise<Response> {
+  return Promise.resolve(app.fetch(new Request(`http://localhost${path}`, { headers: { 'x-user': user } })));
+}
+
+/** let disposal run once its conditions are met */
+function flushDisposal(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+
+describe('request scope', () => {
+  it('builds instances once per request, injecting current request', async () => {
+    const app = await createApp({ controllers: [ProfileController] });
+
+    const first: { id: number; user: string; shared: boolean } = await (await get(app, 'ada')).json();
+    const second: { id: number; user: string; shared: boolean } = await (await get(app, 'alan')).json();
+    assert.equal(first.user, 'ada');
+    assert.equal(second.user, 'alan');
+    assert.notEqual(first.id, second.id);
+    assert.ok(first.shared && second.shared);
+  });
+
+  it('disposes instances in reverse creation order once response is sent', async () => {
+    disposed.length = 0;
+    const app = await createApp({ controllers: [ProfileController] });
+
+    const { id }: { id: number } = await (await get(app, 'ada')).json();
+    await flushDisposal();
+    assert.deepEqual(disposed, [`audit ${id}`, `context ${id}`]);
+  });
+
+  it('keeps instances alive until streamed body is sent', async () => {
+    disposed.length = 0;
+    const app = await createApp({ controllers: [StreamController] });
+
+    const res = await get(app, 'ada', '/stream');
+    await flushDisposal();
+    assert.deepEqual(disposed, []);
+
+    const text = await res.text();
+    await flushDisposal();
+    assert.match(text, /^context \d+ streamed by ada$/);
+    assert.deepEqual(disposed, [text.split(' streamed')[0]]);
+  });
+
+  it('disposes instances when client cancels streamed body', async () => {
+    disposed.length = 0;
+    const app = await createApp({ controllers: [StreamController] });
+
+    const res = await get(app, 'ada', '/stream');
+    await res.body!.cancel();
+    await flushDisposal();
+    assert.equal(disposed.length, 1);
+  });
+
+  it('keeps instances alive until handler settles after request timeout', async () => {
+    disposed.length = 0;
+    const app = await createApp({ controllers: [StreamController], requestTimeout: 10 });
+
+    const res = await get(app, 'ada', '/stream/slow');
+    assert.equal(res.status, 408);
+    await res.text();
+    await flushDisposal();
+    assert.deepEqual(disposed, []);
+
+    releaseHandler();
+    await flushDisposal();
+    assert.equal(disposed.length, 1);
+  });
+
+  it('fails to load controllers injecting request-scoped dependencies out of a request scope', async () => {
+    const error = mock.method(console, 'error', () => undefined);
+    try {
+      const app = await createApp({ controllers: [SessionsController] });
+      const logs: string = error.mock.calls.map(({ arguments: args }) => args.join(' ')).join('\n');
+
+      assert.match(logs, /SessionStore cannot inject RequestContext out of a request scope/);
+      assert.equal((await app.fetch(new Request('http://localhost/sessions'))).status, 404);
+    } finally {
+      error.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+/** internal modules are loaded in package order */
+import '../src/index.js';
+import { Constructible, Controller, Get, IController, Param, YasuiConfig } from '../src/index.js';
+import { DecoratorValidator, ValidatedRoute } from '../src/utils/decorator-validator.js';
+
+
+class Controller0 {}
+class Controller1 {}
+
+/** same controller name in several modules, one of them has an undecorated parameter */
+const InvalidUsersController = ((): Constructible<IController> => {
+  @Controller('/users')
+  class UsersController {
+    @Get('/:id')
+    public get(id: string): string {
+      return id;
+    }
+  }
+  return UsersController;
+})();
+
+const ValidUsersController = ((): Constructible<IController> => {
+  @Controller('/users')
+  class UsersController {
+    @Get('/:id')
+    public get(@Param('id') id: string): string {
+      return id;
+    }
+  }
+  return UsersController;
+})();
+
+/** validate routes in registration order, returns output errors */
+function validateRoutes(routes: Partial<ValidatedRoute>[], config: YasuiConfig = {}): string {
+  const validator = new DecoratorValidator(config);
+  routes.forEach((route, idx) => validator.validateRoute({
+    method: 'get',
+    path: '/',
+    controller: [Controller0, Controller1][idx],
+    methodName: 'handler',
+    ...route,
+  }));
+
+  const error = mock.method(console, 'error', () => undefined);
+  try {
+    validator.outputErrors();
+    return error.mock.calls.map(call => String(call.arguments[0])).join('\n');
+  } finally {
+    error.mock.restore();
+  }
+}
+
+
+describe('route conflicts', () => {
+  it('reports exact duplicates with both controller methods', () => {
+    const output = validateRoutes([{ path: '/users/:id' }, { path: '/users/:id' }]);
+
+    assert.match(output, /Route GET \/users\/:id in Controller1\.handler\(\) duplicates \/users\/:id/);
+    assert.match(output, /duplicates \/users\/:id in Controller0\.handler\(\)/);
+    assert.match(output, /💡 Remove one of the routes/);
+  });
+
+  it('reports param name shadowing', () => {
+    const output = validateRoutes([{ path: '/users/:id' }, { path: '/users/:userId' }]);
+
+    assert.match(output, /\/users\/:userId in Controller1\.handler\(\) is shadowed by \/users\/:id/);
+  });
+
+  it('reports static and dynamic overlaps unless param constraint excludes static segment', () => {
+    assert.match(validateRoutes([{ path: '/users/:id' }, { path: '/users/me' }]), /overlaps/);
+    assert.equal(validateRoutes([{ path: '/users/:id<int>' }, { path: '/users/me' }]), '');
+  });
+
+  it('ignores routes of different methods, hosts or versions', () => {
+    assert.equal(validateRoutes([{ path: '/users' }, { path: '/users', method: 'post' }]), '');
+    assert.equal(validateRoutes([{ path: '/users' }, { path: '/users', method: 'all' }]), '');
+    assert.equal(validateRoutes([{ path: '/users' }, { path: '/users', host: 'admin.example.com' }]), '');
+    assert.equal(validateRoutes([{ path: '/users', versions: ['1'] }, { path: '/users', versions: ['2'] }]), '');
+  });
+
+  it('keeps errors of homonymous controllers apart', () => {
+    const validator = new DecoratorValidator({});
+
+    assert.throws(() => validator.validateController(InvalidUsersController), /UsersController has not passed/);
+    assert.doesNotThrow(() => validator.validateController(ValidUsersController));
+  });
+
+  it('compares paths as normalized by router', () => {
+    assert.match(validateRoutes([{ path: '/users' }, { path: '/users/' }]), /duplicates/);
+    assert.match(validateRoutes([{ path: '/users' }, { path: '//users' }]), /duplicates/);
+    const strict: YasuiConfig = { routing: { trailingSlash: 'strict' } };
+    assert.equal(validateRoutes([{ path: '/users' }, { path: '/users/' }], strict), '');
+
+    assert.equal(validateRoutes([{ path: '/users' }, { path: '/Users' }]), '');
+    const caseInsensitive: YasuiConfig = { routing: { caseSensitive: false } };
+    assert.match(validateRoutes([{ path: '/users' }, { path: '/Users' }], caseInsensitive), /duplicates/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, FetchHandler, Get, RequestHandler, createApp } from '../src/index.js';
+
+
+@Controller('/users')
+class UsersController {
+  @Get('/')
+  public list(): string[] {
+    return ['alice'];
+  }
+}
+
+@Controller('/health')
+class HealthController {
+  @Get('/')
+  public check(): { up: boolean } {
+    return { up: true };
+  }
+}
+
+/** middleware appending its name to x-trace response header */
+function trace(name: string): RequestHandler {
+  return async (_req, next) => {
+    const res = await next!();
+    const headers = new Headers(res.headers);
+    headers.set('x-trace', [name, res.headers.get('x-trace')].filter(Boolean).join(','));
+    return new Response(res.body, { status: res.status, headers });
+  };
+}
+
+function get(app: FetchHandler, path: string): Promise<Response> {
+  return Promise.resolve(app.fetch(new Request(`http://localhost${path}`)));
+}
+
+
+describe('route groups', () => {
+  it('prefixes routes with global prefix, except excluded paths', async () => {
+    const app = await createApp({
+      controllers: [UsersController, HealthController],
+      globalPrefix: { prefix: '/api', exclude: ['/health'] },
+    });
+
+    assert.equal((await get(app, '/api/users')).status, 200);
+    assert.equal((await get(app, '/users')).status, 404);
+    assert.equal((await get(app, '/health')).status, 200);
+    assert.equal((await get(app, '/api/health')).status, 404);
+  });
+
+  it('nests group prefixes and stacks group middlewares', async () => {
+    const app = await createApp({
+      middlewares: [trace('global')],
+      groups: [{
+        prefix: '/admin',
+        middlewares: [trace('admin')],
+        groups: [{ prefix: '/v1', middlewares: [trace('v1')], controllers: [UsersController] }],
+      }],
+    });
+    const res = await get(app, '/admin/v1/users');
+
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('x-trace'), 'global,admin,v1');
+    assert.deepEqual(app.getRoutes()[0].path, '/admin/v1/users');
+  });
+
+  it('documents prefixed paths', async () => {
+    const app = await createApp({
+      globalPrefix: '/api',
+      groups: [{ prefix: '/admin', controllers: [UsersController] }],
+      swagger: { generate: true, info: { title: 'Admin', version: '1.0.0' } },
+    });
+    const res = await get(app, '/api/api-docs/swagger.json');
+    const { paths }: { paths: Record<string, unknown> } = await res.json();
+
+    assert.deepEqual(Object.keys(paths), ['/api/admin/users']);
+  });
+});
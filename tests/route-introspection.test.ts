@@ -0,0 +1,74 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { ApiOperation, Controller, Get, HttpCode, HttpStatus, Post, createApp } from '../src/index.js';
+import { Core } from '../src/core.js';
+
+
+@Controller('/users')
+class UsersController {
+  @Get('/:id')
+  @ApiOperation('Get user')
+  public get(): null {
+    return null;
+  }
+
+  @Post('/')
+  @HttpStatus(HttpCode.CREATED)
+  public create(): null {
+    return null;
+  }
+}
+
+/** run function while capturing console logs */
+function captureLogs(fn: () => void): string {
+  const log = mock.method(console, 'log', () => undefined);
+  try {
+    fn();
+    return log.mock.calls.map(call => String(call.arguments[0])).join('\n');
+  } finally {
+    log.mock.restore();
+  }
+}
+
+
+describe('route introspection', () => {
+  it('lists registered routes with their controller data', async () => {
+    const app = await createApp({ controllers: [UsersController] });
+    const [get, create] = app.getRoutes();
+
+    assert.deepEqual(
+      [get.method, get.path, get.controller, get.methodName, get.swagger?.summary],
+      ['GET', '/users/:id', 'UsersController', 'get', 'Get user']
+    );
+    assert.deepEqual(
+      [create.method, create.path, create.methodName, create.defaultStatus],
+      ['POST', '/users', 'create', HttpCode.CREATED]
+    );
+  });
+
+  it('keeps positional source, default status and logger route params', async () => {
+    const core = new Core({});
+    core.addRoute('/legacy', 'post', () => ({ legacy: true }), [], 'LegacySource', HttpCode.ACCEPTED, false);
+    const app = await core.createApp();
+
+    const [route] = app.getRoutes();
+    assert.deepEqual([route.method, route.path, route.defaultStatus], ['POST', '/legacy', HttpCode.ACCEPTED]);
+    const res = await app.fetch(new Request('http://localhost/legacy', { method: 'POST' }));
+    assert.equal(res.status, HttpCode.ACCEPTED);
+  });
+
+  it('logs routes table through logger in debug mode only', async () => {
+    const core = new Core({ controllers: [UsersController] });
+    await core.createApp();
+    assert.equal(captureLogs(() => core.logRoutes()), '');
+
+    const debugCore = new Core({ controllers: [UsersController], debug: true });
+    await debugCore.createApp();
+    const output = captureLogs(() => debugCore.logRoutes());
+
+    assert.match(output, /app\(debug\).*: 3 registered routes/);
+    assert.match(output, /METHOD\s+PATH\s+HANDLER\s+MIDDLEWARES\s+STATUS/);
+    assert.match(output, /POST\s+\/users\s+UsersController\.create\(\)\s+-\s+201/);
+  });
+});
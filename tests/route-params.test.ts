@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, FetchHandler, Get, ISwaggerConfig, Param, createApp } from '../src/index.js';
+import { parseRoutePath, toOpenAPIPath } from '../src/utils/path.js';
+
+
+@Controller('/items')
+class ItemsController {
+  @Get('/:id<int>')
+  public getById(@Param('id') id: string): { id: string } {
+    return { id };
+  }
+
+  @Get('/slugs/:slug([a-z]+)')
+  public getBySlug(@Param('slug') slug: string): { slug: string } {
+    return { slug };
+  }
+}
+
+@Controller('/files')
+class FilesController {
+  @Get('/**:path')
+  public get(@Param('path') path: string): { path: string } {
+    return { path };
+  }
+}
+
+function createParamsApp(swagger = false): Promise<FetchHandler> {
+  return createApp({
+    controllers: [ItemsController, FilesController],
+    swagger: swagger ? { generate: true, info: { title: 'Items', version: '1.0.0' } } : undefined,
+  });
+}
+
+async function get(app: FetchHandler, path: string): Promise<{ status: number; body: unknown }> {
+  const res = await app.fetch(new Request(`http://localhost${path}`));
+  return { status: res.status, body: await res.json() };
+}
+
+
+describe('route params', () => {
+  it('parses constraints and catch-alls from route path', () => {
+    const { path, constraints, wildcards } = parseRoutePath('/items/:id<int>/:code(\\w{3})/**:rest');
+
+    assert.equal(path, '/items/:id/:code/**:rest');
+    assert.equal(constraints.id.type, 'int');
+    assert.equal(constraints.code.pattern, '\\w{3}');
+    assert.deepEqual(wildcards, ['rest']);
+    assert.equal(toOpenAPIPath('/items/:id<int>/**:rest'), '/items/{id}/{rest}');
+  });
+
+  it('rejects unknown param types', () => {
+    assert.throws(() => parseRoutePath('/items/:id<color>'), /Unknown type 'color'/);
+  });
+
+  it('checks param constraints at match time', async () => {
+    const app = await createParamsApp();
+
+    assert.deepEqual(await get(app, '/items/42'), { status: 200, body: { id: '42' } });
+    assert.equal((await get(app, '/items/4-2')).status, 404);
+  });
+
+  it('checks custom pattern constraints', async () => {
+    const app = await createParamsApp();
+
+    assert.deepEqual(await get(app, '/items/slugs/abc'), { status: 200, body: { slug: 'abc' } });
+    assert.equal((await get(app, '/items/slugs/ABC')).status, 404);
+  });
+
+  it('binds named catch-all through @Param', async () => {
+    const app = await createParamsApp();
+
+    assert.deepEqual(await get(app, '/files/docs/2024/report.pdf'), {
+      status: 200,
+      body: { path: 'docs/2024/report.pdf' },
+    });
+  });
+
+  it('documents constraints and catch-alls as path params', async () => {
+    const app = await createParamsApp(true);
+    const res = await app.fetch(new Request('http://localhost/api-docs/swagger.json'));
+    const { paths }: ISwaggerConfig = await res.json();
+
+    assert.deepEqual(Object.keys(paths).sort(), ['/files/{path}', '/items/slugs/{slug}', '/items/{id}']);
+    const [idParam] = paths['/items/{id}'].get?.parameters || [];
+    assert.deepEqual([idParam.name, idParam.in, idParam.schema], ['id', 'path', { type: 'integer' }]);
+    const [slugParam] = paths['/items/slugs/{slug}'].get?.parameters || [];
+    assert.deepEqual(slugParam.schema, { type: 'string', pattern: '^(?:[a-z]+)$' });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { All, Controller, Delete, FetchHandler, Get, Param, Post, createApp } from '../src/index.js';
+
+
+@Controller('/users')
+class UsersController {
+  @Get('/')
+  public list(): string[] {
+    return ['alice'];
+  }
+
+  @Post('/')
+  public create(): { created: boolean } {
+    return { created: true };
+  }
+
+  @Get('/:id')
+  public get(@Param('id') id: string): { id: string } {
+    return { id };
+  }
+
+  @Delete('/:id')
+  public remove(): void {
+    /** no content */
+  }
+}
+
+@Controller('/proxy')
+class ProxyController {
+  @All('/')
+  public any(): { proxied: boolean } {
+    return { proxied: true };
+  }
+}
+
+function request(app: FetchHandler, method: string, path: string): Promise<Response> {
+  return Promise.resolve(app.fetch(new Request(`http://localhost${path}`, { method })));
+}
+
+
+describe('routing', () => {
+  it('answers HEAD from GET handler without body', async () => {
+    const app = await createApp({ controllers: [UsersController] });
+    const res = await request(app, 'HEAD', '/users/1');
+
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('content-type'), 'application/json');
+    assert.equal(await res.text(), '');
+  });
+
+  it('answers OPTIONS with routed methods of the path', async () => {
+    const app = await createApp({ controllers: [UsersController] });
+
+    const collection = await request(app, 'OPTIONS', '/users');
+    assert.equal(collection.status, 204);
+    assert.equal(collection.headers.get('allow'), 'GET, HEAD, POST, OPTIONS');
+
+    const item = await request(app, 'OPTIONS', '/users/1');
+    assert.equal(item.headers.get('allow'), 'GET, HEAD, DELETE, OPTIONS');
+  });
+
+  it('answers OPTIONS on unknown path with 404', async () => {
+    const app = await createApp({ controllers: [UsersController] });
+    const res = await request(app, 'OPTIONS', '/unknown');
+
+    assert.equal(res.status, 404);
+    assert.equal(res.headers.get('allow'), null);
+  });
+
+  it('answers 405 with Allow header when path exists but method does not', async () => {
+    const app = await createApp({ controllers: [UsersController] });
+    const res = await request(app, 'PUT', '/users/1');
+
+    assert.equal(res.status, 405);
+    assert.equal(res.headers.get('allow'), 'GET, HEAD, DELETE, OPTIONS');
+  });
+
+  it('answers 404 when path does not exist', async () => {
+    const app = await createApp({ controllers: [UsersController] });
+    const res = await request(app, 'GET', '/unknown');
+
+    assert.equal(res.status, 404);
+  });
+
+  it('routes any method to @All handlers', async () => {
+    const app = await createApp({ controllers: [ProxyController] });
+
+    for (const method of ['GET', 'POST', 'PATCH']) {
+      const res = await request(app, method, '/proxy');
+      assert.equal(res.status, 200);
+      assert.deepEqual(await res.json(), { proxied: true });
+    }
+    const options = await request(app, 'OPTIONS', '/proxy');
+    assert.equal(options.status, 200);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Post,
+  Query,
+  Req,
+  YasuiRequest,
+  createTestingApp,
+  testClient,
+} from '../src/index.js';
+
+
+let loginsCount = 0;
+
+@Controller('/auth')
+class AuthController {
+  @Post('/login')
+  public login(@Body('email') email: string): Response {
+    loginsCount++;
+    const headers = new Headers();
+    headers.append('set-cookie', `session=${email}; Path=/; HttpOnly`);
+    headers.append('set-cookie', 'admin_token=secret; Path=/admin');
+    return new Response(null, { status: 204, headers });
+  }
+
+  @Post('/logout')
+  public logout(): Response {
+    return new Response(null, { status: 204, headers: { 'set-cookie': 'session=; Max-Age=0; Path=/' } });
+  }
+
+  @Get('/cookies')
+  public cookies(@Header('cookie') cookie?: string): { cookie?: string } {
+    return { cookie };
+  }
+}
+
+@Controller('/admin')
+class AdminController {
+  @Get('/cookies')
+  public cookies(@Header('cookie') cookie?: string): { cookie?: string } {
+    return { cookie };
+  }
+}
+
+@Controller('/echo')
+class EchoController {
+  @Get('/')
+  public query(@Query('page') page: number, @Header('accept-language') language: string): Record<string, unknown> {
+    return { page, language };
+  }
+
+  @Post('/text')
+  public async text(@Req() req: YasuiRequest): Promise<string> {
+    return `received ${await req.text()}`;
+  }
+}
+
+function createClient(): Promise<ReturnType<typeof testClient>> {
+  return createTestingApp({ controllers: [AuthController, AdminController, EchoController] })
+    .then((app) => testClient(app));
+}
+
+
+describe('test client', () => {
+  it('sends query and headers, and parses JSON responses', async () => {
+    const client = await createClient();
+    const { status, body } = await client.get<{ page: number; language: string }>('/echo')
+      .query({ page: 2 })
+      .set('accept-language', 'en')
+      .expect(200)
+      .expect('content-type', /json/)
+      .expectJson({ page: 2, language: 'en' });
+
+    assert.equal(status, 200);
+    assert.equal(body.page, 2);
+  });
+
+  it('rejects with failed assertion and response body', async () => {
+    const client = await createClient();
+
+    await assert.rejects(
+      client.get('/unknown').expect(200).then(),
+      /expected status 200, got 404 \(GET \/unknown\)\nresponse body: /
+    );
+  });
+
+  it('sends request once when awaited several times', async () => {
+    const client = await createClient();
+    const request = client.post('/auth/login').send({ email: 'ada' });
+    loginsCount = 0;
+
+    const [first, second] = await Promise.all([request, request]);
+    assert.equal(first, second);
+    assert.equal(loginsCount, 1);
+  });
+
+  it('sends stream bodies', async () => {
+    const client = await createClient();
+    const stream = new Blob(['streamed content']).stream();
+    const { body } = await client.post('/echo/text').set('content-type', 'text/plain').send(stream);
+
+    assert.equal(body, 'received streamed content');
+  });
+
+  it('stores cookies and sends them to requests matching their path', async () => {
+    const client = await createClient();
+    await client.post('/auth/login').send({ email: 'ada' }).expect(204);
+
+    assert.deepEqual(await client.get('/auth/cookies').then(({ body }) => body), { cookie: 'session=ada' });
+    assert.deepEqual(
+      await client.get('/admin/cookies').then(({ body }) => body),
+      { cookie: 'session=ada; admin_token=secret' }
+    );
+
+    await client.post('/auth/logout').expect(204);
+    assert.deepEqual([...client.cookies.keys()], ['admin_token']);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Controller,
+  Get,
+  Inject,
+  Injectable,
+  InjectionToken,
+  Scope,
+  Scopes,
+  createTestingApp,
+} from '../src/index.js';
+
+
+const GREETING = new InjectionToken<string>('greeting');
+
+@Injectable()
+class MailService {
+  public readonly name: string = 'real';
+}
+
+@Injectable()
+class FakeMailService extends MailService {
+  public override readonly name: string = 'fake';
+}
+
+@Injectable()
+class GreetingService {
+  constructor(@Inject(GREETING) public readonly greeting: string) {}
+}
+
+@Controller('/mails')
+class MailsController {
+  constructor(
+    private sharedMail: MailService,
+    @Scope(Scopes.LOCAL) private localMail: MailService,
+    private greetingService: GreetingService
+  ) {}
+
+  @Get('/')
+  public list(@Inject() @Scope(Scopes.REQUEST) requestMail: MailService): Record<string, string> {
+    return {
+      shared: this.sharedMail.name,
+      local: this.localMail.name,
+      request: requestMail.name,
+      greeting: this.greetingService.greeting,
+    };
+  }
+}
+
+
+describe('testing app', () => {
+  it('replaces classes by values in every scope', async () => {
+    const mailMock = { name: 'mock' };
+    const app = await createTestingApp({
+      controllers: [MailsController],
+      providers: [{ token: GREETING, provide: 'hello' }],
+      overrides: [{ token: MailService, provide: mailMock }],
+    });
+    const res = await app.fetch(new Request('http://localhost/mails'));
+
+    assert.deepEqual(await res.json(), { shared: 'mock', local: 'mock', request: 'mock', greeting: 'hello' });
+    assert.equal(app.get(MailService), mailMock);
+  });
+
+  it('builds override classes in the scope they are injected with', async () => {
+    const app = await createTestingApp({
+      controllers: [MailsController],
+      providers: [{ token: GREETING, provide: 'hello' }],
+      overrides: [{ token: MailService, useClass: FakeMailService }],
+    });
+    const res = await app.fetch(new Request('http://localhost/mails'));
+
+    assert.deepEqual(await res.json(), { shared: 'fake', local: 'fake', request: 'fake', greeting: 'hello' });
+    assert.ok(app.get(MailService) instanceof FakeMailService);
+  });
+
+  it('replaces registered providers', async () => {
+    const app = await createTestingApp({
+      controllers: [MailsController],
+      providers: [{ token: GREETING, provide: 'hello' }],
+      overrides: [{ token: GREETING, useFactory: (): string => 'hello test' }],
+    });
+    const res = await app.fetch(new Request('http://localhost/mails'));
+
+    assert.deepEqual(await res.json(), { shared: 'real', local: 'real', request: 'real', greeting: 'hello test' });
+    assert.equal(app.get(GreetingService).greeting, 'hello test');
+  });
+});
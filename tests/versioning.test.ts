@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Controller, FetchHandler, Get, Version, YasuiVersioningConfig, createApp } from '../src/index.js';
+
+
+@Controller('/users')
+class UsersV1Controller {
+  @Get('/')
+  public list(): { version: string } {
+    return { version: '1' };
+  }
+}
+
+@Version('2')
+@Controller('/users')
+class UsersV2Controller {
+  @Get('/')
+  public list(): { version: string } {
+    return { version: '2' };
+  }
+
+  @Version('3')
+  @Get('/latest')
+  public latest(): { version: string } {
+    return { version: '3' };
+  }
+}
+
+function createVersionedApp(versioning: YasuiVersioningConfig, swagger = false): Promise<FetchHandler> {
+  return createApp({
+    controllers: [UsersV1Controller, UsersV2Controller],
+    versioning,
+    swagger: swagger ? { generate: true, info: { title: 'Users', version: '1.0.0' } } : undefined,
+  });
+}
+
+async function getVersion(app: FetchHandler, path: string, headers: Record<string, string> = {}): Promise<unknown> {
+  const res = await app.fetch(new Request(`http://localhost${path}`, { headers }));
+  if (res.status !== 200) {
+    return res.status;
+  }
+  const body: { version: string } = await res.json();
+  return body.version;
+}
+
+
+describe('versioning', () => {
+  it('routes by uri prefix, with unprefixed path serving default version', async () => {
+    const app = await createVersionedApp({ type: 'uri', defaultVersion: '1' });
+
+    assert.equal(await getVersion(app, '/v1/users'), '1');
+    assert.equal(await getVersion(app, '/v2/users'), '2');
+    assert.equal(await getVersion(app, '/users'), '1');
+    assert.equal(await getVersion(app, '/v3/users/latest'), '3');
+    assert.equal(await getVersion(app, '/v2/users/latest'), 404);
+  });
+
+  it('routes by custom header, falling back to default version', async () => {
+    const app = await createVersionedApp({ type: 'header', header: 'x-version', defaultVersion: '1' });
+
+    assert.equal(await getVersion(app, '/users', { 'x-version': '2' }), '2');
+    assert.equal(await getVersion(app, '/users', { 'x-version': '1' }), '1');
+    assert.equal(await getVersion(app, '/users'), '1');
+  });
+
+  it('routes by Accept media type', async () => {
+    const app = await createVersionedApp({ type: 'media-type', defaultVersion: '1' });
+
+    assert.equal(await getVersion(app, '/users', { accept: 'application/vnd.app.v2+json' }), '2');
+    assert.equal(await getVersion(app, '/users', { accept: 'application/json' }), '1');
+  });
+
+  it('answers 404 when route only exists for another version', async () => {
+    const app = await createVersionedApp({ type: 'header', defaultVersion: '1' });
+    const res = await app.fetch(new Request('http://localhost/users/latest', { headers: { 'x-api-version': '2' } }));
+
+    assert.equal(res.status, 404);
+  });
+
+  it('generates one swagger document per version', async () => {
+    const app = await createVersionedApp({ type: 'uri', defaultVersion: '1' }, true);
+    const res = await app.fetch(new Request('http://localhost/api-docs/2/swagger.json'));
+    const { paths }: { paths: Record<string, unknown> } = await res.json();
+
+    assert.deepEqual(Object.keys(paths), ['/v2/users']);
+  });
+});